@@ -1,9 +1,31 @@
-import { useState, useEffect } from 'react';
-import type { Conversation, Message } from './types';
-import { parseStreamData } from './utils';
+import { useState, useEffect, useRef } from 'react';
+import type { Attachment, Conversation, ConversationSearchResult, ConversationUpdate, DataSourceSelection, Message, MessageParts, OutboxItem } from './types';
+import { applyStreamEvent, composeMessageContent, createMessageParts } from './utils';
 import { ApiService } from './services/api';
+import { StreamInterruptedError, streamChatResponse } from './services/chatStream';
+import { getAuthProvider, onAuthChange } from './services/auth';
+import { USE_MOCK_BACKEND } from './config';
+import { describeError, isRetryableError } from './services/errors';
+import { Outbox } from './services/outbox';
+import { downloadConversation } from './services/exportConversation';
+import { DEFAULT_CONVERSATION_TITLE, deriveTitle } from './services/titles';
 import Sidebar from './components/Sidebar';
 import ChatInterface from './components/ChatInterface';
+import LoginScreen from './components/LoginScreen';
+import UndoToast from './components/UndoToast';
+
+const OUTBOX_RETRY_DELAY_MS = 15000;
+// Only the start of the first answer is sent along for titling
+const TITLE_CONTEXT_CHARS = 2000;
+// How long a deleted conversation can be restored before the backend is told
+const DELETE_UNDO_MS = 5000;
+
+// A conversation removed from the list but not yet deleted on the backend
+interface PendingDelete {
+  conversation: Conversation;
+  // Position in the list, so undo puts it back where it was
+  index: number;
+}
 
 function App() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
@@ -12,6 +34,32 @@ function App() {
   const [convPage, setConvPage] = useState(1);
   const [convHasNext, setConvHasNext] = useState(true);
   const [convLoading, setConvLoading] = useState(false);
+  // Failures are shown where they happened: the conversation list and the open conversation
+  const [convError, setConvError] = useState<{ message: string; retry: () => void } | null>(null);
+  const [messagesErrors, setMessagesErrors] = useState<Record<string, string>>({});
+  const [sourcesError, setSourcesError] = useState<{ conversationId: string; message: string; retry: () => void } | null>(null);
+  const [convReloadKey, setConvReloadKey] = useState(0);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const pendingDeleteTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Message opened from a search result; the chat view scrolls to it instead of the bottom
+  const [focusedMessage, setFocusedMessage] = useState<{ conversationId: string; messageId: string } | null>(null);
+  // Unsent user messages, persisted across reloads and delivered in order once the backend is reachable
+  const [outbox, setOutbox] = useState<OutboxItem[]>(() => Outbox.load());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Set after a delivery attempt failed with the backend down; cleared by a timer or the 'online' event
+  const [outboxBlocked, setOutboxBlocked] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(() => USE_MOCK_BACKEND || !!getAuthProvider().getAccessToken());
+  // The in-flight history load; switching conversations aborts it so a stale response cannot land
+  const messagesLoadRef = useRef<{ conversationId: string; controller: AbortController } | null>(null);
+  // Conversations whose history has been fetched, so empty threads are not refetched on every render
+  const loadedConversationIdsRef = useRef(new Set<string>());
+  // Latest conversations for async work that outlives the render it started in
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // Conversations with a title request in flight
+  const titlingIdsRef = useRef(new Set<string>());
+  // Tracks the in-flight stream so the Stop button can abort it and notify the backend
+  const activeStreamRef = useRef<{ controller: AbortController; conversationId: string; backendMessageId?: string } | null>(null);
 
   // Function to get conversation ID from URL
   const getConversationIdFromUrl = (): string | null => {
@@ -46,40 +94,86 @@ function App() {
     return () => window.removeEventListener('popstate', handlePopState);
   }, [conversations]);
 
-  // Fetch conversations from backend (first page)
+  // Follow login/logout (including a failed token refresh) from the auth provider
+  useEffect(() => onAuthChange(authenticated => {
+    setIsAuthenticated(USE_MOCK_BACKEND || authenticated);
+    if (!authenticated) {
+      setConversations([]);
+      setActiveConversationId(null);
+      clearTimeout(pendingDeleteTimerRef.current);
+      setPendingDelete(null);
+      loadedConversationIdsRef.current.clear();
+      ApiService.clearCache();
+      setOutbox([]);
+    }
+  }), []);
+
+  // Fetch conversations from backend (first page); bumping convReloadKey retries after a failure
   useEffect(() => {
+    if (!isAuthenticated) return;
+
+    let selectedId: string | null = null;
+    const selectInitialConversation = (list: Conversation[]) => {
+      // Keep the selection made from the cached list unless the fresh list dropped it
+      if (selectedId && list.some(c => c.id === selectedId)) return;
+
+      // Check if there's a conversation ID in the URL
+      const conversationIdFromUrl = getConversationIdFromUrl();
+      if (conversationIdFromUrl && list.some(c => c.id === conversationIdFromUrl)) {
+        selectedId = conversationIdFromUrl;
+        setActiveConversationId(conversationIdFromUrl);
+      } else if (list.length > 0) {
+        // Set the first conversation as active if no valid URL conversation ID
+        selectedId = list[0].id;
+        setActiveConversationId(list[0].id);
+        updateUrlWithConversationId(list[0].id);
+      }
+    };
+
     const loadConversations = async () => {
       try {
         setConvLoading(true);
+        setConvError(null);
+
+        // Render the cached list straight away; the network page below revalidates it
+        const cached = await ApiService.getCachedConversations();
+        if (cached.length > 0) {
+          setConversations(prev => (prev.length > 0 ? prev : cached));
+          selectInitialConversation(cached);
+        }
+
         const { conversations: firstPageConvs, page, hasNext } = await ApiService.fetchConversationsPage(1, 20);
-        setConversations(firstPageConvs);
+        setConversations(prev => {
+          const previous = new Map(prev.map(c => [c.id, c]));
+          return firstPageConvs.map(conv => {
+            const existing = previous.get(conv.id);
+            // Unchanged since it was loaded: keep the messages already on screen
+            if (existing && existing.timestamp.getTime() === conv.timestamp.getTime()) {
+              return { ...conv, messages: existing.messages, lastMessage: existing.lastMessage };
+            }
+            loadedConversationIdsRef.current.delete(conv.id);
+            return conv;
+          });
+        });
         setConvPage(page);
         setConvHasNext(hasNext);
-        
-        // Check if there's a conversation ID in the URL
-        const conversationIdFromUrl = getConversationIdFromUrl();
-        if (conversationIdFromUrl && firstPageConvs.some(c => c.id === conversationIdFromUrl)) {
-          setActiveConversationId(conversationIdFromUrl);
-        } else if (firstPageConvs.length > 0) {
-          // Set the first conversation as active if no valid URL conversation ID
-          setActiveConversationId(firstPageConvs[0].id);
-          updateUrlWithConversationId(firstPageConvs[0].id);
-        }
+        selectInitialConversation(firstPageConvs);
       } catch (error) {
         console.error('Failed to load conversations:', error);
-        // Optionally show an error message to the user
+        setConvError({ message: describeError(error), retry: () => setConvReloadKey(key => key + 1) });
       } finally {
         setConvLoading(false);
       }
     };
 
     loadConversations();
-  }, []);
+  }, [isAuthenticated, convReloadKey]);
 
   const loadMoreConversations = async () => {
     if (convLoading || !convHasNext) return;
     try {
       setConvLoading(true);
+      setConvError(null);
       const nextPage = convPage + 1;
       const { conversations: nextConvs, page, hasNext } = await ApiService.fetchConversationsPage(nextPage, 20);
       setConversations(prev => {
@@ -91,6 +185,7 @@ function App() {
       setConvHasNext(hasNext);
     } catch (e) {
       console.error('Failed to load more conversations:', e);
+      setConvError({ message: describeError(e), retry: loadMoreConversations });
     } finally {
       setConvLoading(false);
     }
@@ -100,19 +195,34 @@ function App() {
   useEffect(() => {
     if (activeConversationId) {
       const conversation = conversations.find(c => c.id === activeConversationId);
-      if (conversation && conversation.messages.length === 0) {
-        loadConversationMessages(activeConversationId);
+      // A failed load waits for an explicit retry instead of refiring on every state change
+      if (
+        conversation &&
+        conversation.messages.length === 0 &&
+        !messagesErrors[activeConversationId] &&
+        !loadedConversationIdsRef.current.has(activeConversationId) &&
+        messagesLoadRef.current?.conversationId !== activeConversationId
+      ) {
+        loadConversationMessages(activeConversationId, conversation.timestamp);
       }
     }
-  }, [activeConversationId, conversations]);
+  }, [activeConversationId, conversations, messagesErrors]);
 
   const activeConversation = conversations.find(c => c.id === activeConversationId);
 
-  // Generalized function to process and display content
-  const processAndDisplayContent = (content: string, messageId: string, isCompleted: boolean = false) => {
+  // Apply the latest structured parts to the streaming AI message
+  const processAndDisplayParts = (
+    conversationId: string,
+    parts: MessageParts,
+    messageId: string,
+    status: Message['status'] = 'streaming',
+    error?: string
+  ) => {
+    const content = composeMessageContent(parts);
+    const isFinished = status !== 'streaming';
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === activeConversationId
+        conv.id === conversationId
           ? {
               ...conv,
               messages: conv.messages.map(msg => 
@@ -120,49 +230,291 @@ function App() {
                   ? { 
                       ...msg, 
                       content,
-                      status: isCompleted ? 'completed' : 'streaming'
+                      parts,
+                      status,
+                      error: status === 'error' ? error : undefined
                     }
                   : msg
               ),
-              lastMessage: isCompleted ? content.substring(0, 100) + '...' : conv.lastMessage
+              lastMessage: isFinished ? content.substring(0, 100) + '...' : conv.lastMessage
             }
           : conv
       )
     );
   };
 
-  const handleNewConversation = async () => {
+  // Used for non-streamed fallbacks where only a full body is available
+  const processAndDisplayContent = (conversationId: string, content: string, messageId: string, status: Message['status'] = 'streaming') => {
+    processAndDisplayParts(conversationId, { ...createMessageParts(), content, sections: ['content'] }, messageId, status);
+  };
+
+  const updateOutboxItem = (id: string, patch: Partial<OutboxItem>) => {
+    setOutbox(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const removeOutboxItem = (id: string) => {
+    setOutbox(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleNewConversation = async (selection?: DataSourceSelection) => {
     try {
-      const newConversation = await ApiService.createConversation('New Chat');
-      if (newConversation) {
-        setConversations(prev => [newConversation, ...prev]);
-        setActiveConversationId(newConversation.id);
-        updateUrlWithConversationId(newConversation.id);
-      }
+      setConvError(null);
+      const newConversation = await ApiService.createConversation(DEFAULT_CONVERSATION_TITLE, selection);
+      loadedConversationIdsRef.current.add(newConversation.id);
+      setConversations(prev => [newConversation, ...prev]);
+      setActiveConversationId(newConversation.id);
+      updateUrlWithConversationId(newConversation.id);
     } catch (error) {
+      // A local-only conversation could never be sent to, so report the failure instead
       console.error('Failed to create new conversation:', error);
-      // Fallback: create conversation locally
-      const localConversation: Conversation = {
-        id: `conv-${Date.now()}`,
-        title: 'New Chat',
-        lastMessage: '',
-        timestamp: new Date(),
-        messages: [],
-      };
-      setConversations(prev => [localConversation, ...prev]);
-      setActiveConversationId(localConversation.id);
-      updateUrlWithConversationId(localConversation.id);
+      setConvError({ message: `Could not start a new chat. ${describeError(error)}`, retry: () => handleNewConversation(selection) });
     }
   };
 
-  const handleConversationSelect = (id: string) => {
+  const setConversationSources = (conversationId: string, selection: DataSourceSelection) => {
+    setConversations(prev => prev.map(conv => (conv.id === conversationId ? { ...conv, ...selection } : conv)));
+  };
+
+  // Applied immediately and rolled back if the backend rejects it
+  const handleUpdateDataSources = async (selection: DataSourceSelection) => {
+    const conversation = activeConversation;
+    if (!conversation) return;
+    const previous = {
+      selectedAssets: conversation.selectedAssets ?? [],
+      selectedDataSources: conversation.selectedDataSources ?? [],
+    };
+    setSourcesError(null);
+    setConversationSources(conversation.id, selection);
+    try {
+      await ApiService.updateConversationSources(conversation.id, selection);
+    } catch (error) {
+      console.error('Failed to update data sources:', error);
+      setConversationSources(conversation.id, previous);
+      setSourcesError({
+        conversationId: conversation.id,
+        message: `Could not update data sources. ${describeError(error)}`,
+        retry: () => handleUpdateDataSources(selection),
+      });
+    }
+  };
+
+  // Rename, pin or archive; applied immediately and rolled back if the backend rejects it
+  const handleUpdateConversation = async (id: string, update: ConversationUpdate) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    const keys = Object.keys(update) as Array<keyof ConversationUpdate>;
+    const previous = Object.fromEntries(keys.map(key => [key, conversation[key]])) as ConversationUpdate;
+    const apply = (patch: ConversationUpdate) =>
+      setConversations(prev => prev.map(conv => (conv.id === id ? { ...conv, ...patch } : conv)));
+
+    setConvError(null);
+    apply(update);
+    try {
+      await ApiService.updateConversation(id, update);
+    } catch (error) {
+      console.error('Failed to update conversation:', error);
+      apply(previous);
+      setConvError({
+        message: `Could not update "${conversation.title}". ${describeError(error)}`,
+        retry: () => handleUpdateConversation(id, update),
+      });
+    }
+  };
+
+  // Name a conversation still called "New Chat" after its first answer: by the backend when it
+  // can, otherwise from the first question. Titles the user set by hand are locked and kept.
+  const autoTitleConversation = async (conversationId: string, question: string, answer: string) => {
+    const isUntitled = () => {
+      const conversation = conversationsRef.current.find(c => c.id === conversationId);
+      return !!conversation && conversation.title === DEFAULT_CONVERSATION_TITLE && !conversation.titleLocked;
+    };
+    if (!isUntitled() || titlingIdsRef.current.has(conversationId)) return;
+    titlingIdsRef.current.add(conversationId);
+    const firstQuestion =
+      conversationsRef.current.find(c => c.id === conversationId)?.messages.find(msg => msg.type === 'user')?.content ?? question;
+
+    try {
+      const generated = await ApiService.generateTitle(conversationId, firstQuestion, answer.slice(0, TITLE_CONTEXT_CHARS)).catch(error => {
+        console.warn('Title generation failed, using a local title:', error);
+        return null;
+      });
+      const title = generated || deriveTitle(firstQuestion);
+      // The user may have renamed it while the title was being generated
+      if (!title || !isUntitled()) return;
+      setConversations(prev => prev.map(conv => (conv.id === conversationId ? { ...conv, title } : conv)));
+      await ApiService.updateConversation(conversationId, { title });
+    } catch (error) {
+      // Keep it on screen; after a reload the conversation is untitled again and renamed after its next answer
+      console.warn('Failed to save conversation title:', error);
+    } finally {
+      titlingIdsRef.current.delete(conversationId);
+    }
+  };
+
+  const handleDuplicateConversation = async (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    try {
+      setConvError(null);
+      const copy = await ApiService.duplicateConversation(id, `${conversation.title} (copy)`);
+      setConversations(prev => [copy, ...prev]);
+      handleConversationSelect(copy.id);
+    } catch (error) {
+      console.error('Failed to duplicate conversation:', error);
+      setConvError({
+        message: `Could not duplicate "${conversation.title}". ${describeError(error)}`,
+        retry: () => handleDuplicateConversation(id),
+      });
+    }
+  };
+
+  const handleExportConversation = async (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!conversation) return;
+    try {
+      setConvError(null);
+      const messages = loadedConversationIdsRef.current.has(id)
+        ? conversation.messages
+        : await ApiService.fetchConversationMessages(id);
+      downloadConversation(conversation, messages);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      setConvError({
+        message: `Could not export "${conversation.title}". ${describeError(error)}`,
+        retry: () => handleExportConversation(id),
+      });
+    }
+  };
+
+  // Runs once the undo window has passed; a failed delete puts the conversation back
+  const commitDelete = async ({ conversation, index }: PendingDelete) => {
+    try {
+      await ApiService.deleteConversation(conversation.id);
+      loadedConversationIdsRef.current.delete(conversation.id);
+      // Queued messages for it could never be delivered
+      setOutbox(prev => prev.filter(item => item.conversationId !== conversation.id || item.state === 'sending'));
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      setConversations(prev =>
+        prev.some(conv => conv.id === conversation.id) ? prev : [...prev.slice(0, index), conversation, ...prev.slice(index)]
+      );
+      setConvError({
+        message: `Could not delete "${conversation.title}". ${describeError(error)}`,
+        retry: () => {
+          setConvError(null);
+          setConversations(prev => prev.filter(conv => conv.id !== conversation.id));
+          commitDelete({ conversation, index });
+        },
+      });
+    }
+  };
+
+  // Deleting a second conversation ends the first one's undo window early
+  const flushPendingDelete = () => {
+    clearTimeout(pendingDeleteTimerRef.current);
+    if (pendingDelete) commitDelete(pendingDelete);
+    setPendingDelete(null);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    const index = conversations.findIndex(c => c.id === id);
+    if (index === -1) return;
+    flushPendingDelete();
+    const pending = { conversation: conversations[index], index };
+    setConversations(prev => prev.filter(conv => conv.id !== id));
+    setPendingDelete(pending);
+    pendingDeleteTimerRef.current = setTimeout(() => {
+      setPendingDelete(null);
+      commitDelete(pending);
+    }, DELETE_UNDO_MS);
+
+    if (activeConversationId === id) {
+      const next = conversations.find(c => c.id !== id && !c.archived);
+      if (next) {
+        handleConversationSelect(next.id);
+      } else {
+        setActiveConversationId(null);
+        updateUrlWithConversationId(null);
+      }
+    }
+  };
+
+  const handleUndoDelete = () => {
+    if (!pendingDelete) return;
+    clearTimeout(pendingDeleteTimerRef.current);
+    const { conversation, index } = pendingDelete;
+    setConversations(prev => [...prev.slice(0, index), conversation, ...prev.slice(index)]);
+    setPendingDelete(null);
+  };
+
+  // Null opens the welcome screen, where a new chat's data sources are picked before it is created
+  const handleConversationSelect = (id: string | null) => {
+    // Abandon the previous conversation's history load; its response is no longer wanted
+    if (messagesLoadRef.current && messagesLoadRef.current.conversationId !== id) {
+      messagesLoadRef.current.controller.abort();
+      messagesLoadRef.current = null;
+    }
     setActiveConversationId(id);
     updateUrlWithConversationId(id);
+    setFocusedMessage(null);
+  };
+
+  const handleSearchResultSelect = (result: ConversationSearchResult) => {
+    // Backend matches can be in conversations past the loaded pages; list them so they can open
+    setConversations(prev =>
+      prev.some(conv => conv.id === result.conversationId)
+        ? prev
+        : [
+            ...prev,
+            {
+              id: result.conversationId,
+              title: result.title,
+              lastMessage: 'Click to view conversation',
+              timestamp: result.timestamp,
+              messages: [],
+            },
+          ]
+    );
+    handleConversationSelect(result.conversationId);
+    if (result.messageId) {
+      setFocusedMessage({ conversationId: result.conversationId, messageId: result.messageId });
+    }
   };
 
-  const loadConversationMessages = async (conversationId: string) => {
+  // `updatedAt` is the conversation's backend timestamp, used to decide whether cached history is current
+  const loadConversationMessages = async (conversationId: string, updatedAt: Date) => {
+    // Only the most recently requested conversation may write its history into state
+    messagesLoadRef.current?.controller.abort();
+    const load = { conversationId, controller: new AbortController() };
+    messagesLoadRef.current = load;
+
+    setMessagesErrors(prev => {
+      if (!(conversationId in prev)) return prev;
+      const next = { ...prev };
+      delete next[conversationId];
+      return next;
+    });
     try {
-      const messages = await ApiService.fetchConversationMessages(conversationId);
+      // Show cached history immediately; skip the network entirely if it is still current
+      const cached = await ApiService.getCachedMessages(conversationId, updatedAt);
+      if (load.controller.signal.aborted) return;
+      if (cached) {
+        setConversations(prev => 
+          prev.map(conv => 
+            conv.id === conversationId && conv.messages.length === 0
+              ? { ...conv, messages: cached.messages }
+              : conv
+          )
+        );
+        if (cached.isFresh) {
+          loadedConversationIdsRef.current.add(conversationId);
+          return;
+        }
+      }
+
+      const messages = await ApiService.fetchConversationMessages(conversationId, load.controller.signal);
+      if (load.controller.signal.aborted) return;
+      loadedConversationIdsRef.current.add(conversationId);
       
       // Update the conversation with loaded messages
       setConversations(prev => 
@@ -179,28 +531,56 @@ function App() {
         )
       );
     } catch (error) {
+      if (load.controller.signal.aborted) return;
       console.error('Failed to load conversation messages:', error);
+      setMessagesErrors(prev => ({ ...prev, [conversationId]: describeError(error) }));
+    } finally {
+      if (messagesLoadRef.current === load) {
+        messagesLoadRef.current = null;
+      }
     }
   };
 
-  const handleSendMessage = async (content: string) => {
+  // Sending always goes through the outbox; the drain effect below delivers it when possible
+  const handleSendMessage = (content: string, attachments: Attachment[] = []) => {
     if (!activeConversationId) return;
+    setFocusedMessage(null);
+
+    setOutbox(prev => [
+      ...prev,
+      {
+        id: `msg-${Date.now()}`,
+        conversationId: activeConversationId,
+        content,
+        createdAt: new Date(),
+        state: 'queued',
+        attachments: attachments.length > 0 ? attachments : undefined,
+      },
+    ]);
+  };
+
+  const deliverOutboxItem = async (item: OutboxItem) => {
+    updateOutboxItem(item.id, { state: 'sending', error: undefined });
+    // Items for conversations never opened this session are sent without their history in memory
+    const historyLoaded = loadedConversationIdsRef.current.has(item.conversationId);
 
     // Add user message
     const userMessage: Message = {
-      id: `msg-${Date.now()}`,
-      content,
+      id: item.id,
+      content: item.content,
       type: 'user',
-      timestamp: new Date(),
+      timestamp: item.createdAt,
+      delivery: 'sending',
+      attachments: item.attachments,
     };
 
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === activeConversationId
+        conv.id === item.conversationId
           ? {
               ...conv,
               messages: [...conv.messages, userMessage],
-              lastMessage: content,
+              lastMessage: item.content,
               timestamp: new Date(),
             }
           : conv
@@ -209,10 +589,49 @@ function App() {
 
     // Start streaming AI response
     setIsStreaming(true);
-    await streamResponseFromAPI(content);
+    const outcome = await streamResponseFromAPI(item.conversationId, item.content, item.attachments, () => {
+      // The backend has the message now, so it no longer belongs in the outbox
+      removeOutboxItem(item.id);
+      setConversations(prev => 
+        prev.map(conv => 
+          conv.id === item.conversationId
+            ? { ...conv, messages: conv.messages.map(msg => (msg.id === item.id ? { ...msg, delivery: undefined } : msg)) }
+            : conv
+        )
+      );
+    });
+
+    if (outcome.kind === 'undelivered') {
+      // Put it back in the outbox rather than leaving a dangling bubble in the thread
+      setConversations(prev => 
+        prev.map(conv => 
+          conv.id === item.conversationId
+            ? { ...conv, messages: conv.messages.filter(msg => msg.id !== item.id) }
+            : conv
+        )
+      );
+      if (isRetryableError(outcome.error)) {
+        updateOutboxItem(item.id, { state: 'queued' });
+        setOutboxBlocked(true);
+      } else {
+        updateOutboxItem(item.id, { state: 'failed', error: describeError(outcome.error) });
+      }
+    } else if (!historyLoaded) {
+      // Drop the partial thread so the full history is fetched when the conversation is opened
+      setConversations(prev => 
+        prev.map(conv => (conv.id === item.conversationId ? { ...conv, messages: [] } : conv))
+      );
+    }
   };
 
-  const streamResponseFromAPI = async (userMessage: string) => {
+  // `onDelivered` marks an outbox send: failures before the first event are then reported back
+  // as undelivered instead of as an error on the AI message
+  const streamResponseFromAPI = async (
+    conversationId: string,
+    userMessage: string,
+    attachments: Attachment[] = [],
+    onDelivered?: () => void
+  ): Promise<{ kind: 'done' } | { kind: 'undelivered'; error: unknown }> => {
     // Create AI message
     const aiMessage: Message = {
       id: `msg-${Date.now()}-ai`,
@@ -225,7 +644,7 @@ function App() {
     // Add streaming message
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === activeConversationId
+        conv.id === conversationId
           ? {
               ...conv,
               messages: [...conv.messages, aiMessage],
@@ -234,104 +653,184 @@ function App() {
       )
     );
 
-    try {
-      // Call the real API
-      const response = await ApiService.sendMessage(activeConversationId!, userMessage);
-      
-      if (!response || !response.body) {
-        throw new Error('No response from API');
-      }
+    const controller = new AbortController();
+    const stream: NonNullable<typeof activeStreamRef.current> = { controller, conversationId };
+    activeStreamRef.current = stream;
+    let parts = createMessageParts();
+    let streamError: string | undefined;
+    let delivered = false;
+    const markDelivered = () => {
+      if (delivered) return;
+      delivered = true;
+      onDelivered?.();
+    };
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let accumulatedContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n').filter(line => line.trim().startsWith('data:'));
-        
-        for (const line of lines) {
-          const parsedData = parseStreamData(line);
-          if (parsedData && parsedData.message) {
-            // Generalized approach: accumulate any message content regardless of status
-            accumulatedContent += parsedData.message;
-            
-            // Update message content in real-time
-            processAndDisplayContent(accumulatedContent, aiMessage.id);
+    try {
+      // Call the real API; dropped connections are resumed inside streamChatResponse
+      const result = await streamChatResponse(conversationId, userMessage, {
+        onEvent: (parsedData) => {
+          markDelivered();
+          stream.backendMessageId = parsedData.messageId || stream.backendMessageId;
+          if (parsedData.status === 'error') {
+            streamError = parsedData.message || 'The assistant failed to complete this response.';
           }
-        }
+          // Route the event into its typed part by status
+          parts = applyStreamEvent(parts, parsedData);
+          
+          // Update message parts in real-time
+          processAndDisplayParts(conversationId, parts, aiMessage.id);
+        },
+        onReset: () => {
+          parts = { ...createMessageParts(), steps: parts.steps };
+        },
+        onReconnecting: (attempt) => {
+          parts = { ...parts, steps: [...parts.steps, `Connection lost, reconnecting (attempt ${attempt})...`] };
+          processAndDisplayParts(conversationId, parts, aiMessage.id);
+        },
+      }, controller.signal, attachments);
+      markDelivered();
+
+      if (result.kind === 'recovered') {
+        // The stream could not be reattached, but the backend already stored the full answer
+        processAndDisplayContent(conversationId, result.message.content, aiMessage.id, 'completed');
+        void autoTitleConversation(conversationId, userMessage, result.message.content);
+      } else if (streamError) {
+        processAndDisplayParts(conversationId, parts, aiMessage.id, 'error', streamError);
+      } else {
+        // Mark as completed
+        processAndDisplayParts(conversationId, parts, aiMessage.id, 'completed');
+        void autoTitleConversation(conversationId, userMessage, composeMessageContent(parts));
       }
 
-      // Mark as completed
-      processAndDisplayContent(accumulatedContent, aiMessage.id, true);
-
     } catch (error) {
-      console.error('Error streaming from API:', error);
-      
-      // Fallback to local simulation for development
-      await simulateStreamingResponse(userMessage, aiMessage);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user pressed Stop
+        markDelivered();
+        processAndDisplayParts(conversationId, parts, aiMessage.id, 'stopped');
+      } else if (onDelivered && !delivered && !(error instanceof StreamInterruptedError)) {
+        // The request never reached the backend: drop the placeholder and let the outbox handle it
+        console.warn('Message not delivered:', error);
+        setConversations(prev => 
+          prev.map(conv => 
+            conv.id === conversationId
+              ? { ...conv, messages: conv.messages.filter(msg => msg.id !== aiMessage.id) }
+              : conv
+          )
+        );
+        setIsStreaming(false);
+        return { kind: 'undelivered', error };
+      } else {
+        // Keep any partial response and surface the failure so the user can retry
+        markDelivered();
+        console.error('Error streaming from API:', error);
+        const reason = error instanceof StreamInterruptedError
+          ? 'Connection lost before the response finished.'
+          : describeError(error);
+        processAndDisplayParts(conversationId, parts, aiMessage.id, 'error', reason);
+      }
+    } finally {
+      if (activeStreamRef.current === stream) {
+        activeStreamRef.current = null;
+      }
     }
 
     setIsStreaming(false);
+    return { kind: 'done' };
   };
 
-  const simulateStreamingResponse = async (_userMessage: string, aiMessage: Message) => {
-    // Simulate reading from streamed_result.txt as fallback
-    try {
-      const response = await fetch('/streamed_result.txt');
-      const streamData = await response.text();
-      const lines = streamData.split('\n').filter(line => line.trim().startsWith('data:'));
-      
-      let accumulatedContent = '';
-      
-      for (let i = 0; i < lines.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 500)); // Simulate streaming delay
-        
-        const parsedData = parseStreamData(lines[i]);
-        if (parsedData && parsedData.message) {
-          // Generalized approach: accumulate any message content regardless of status
-          accumulatedContent += parsedData.message;
-        }
-        
-        // Update message content
-        processAndDisplayContent(accumulatedContent, aiMessage.id);
-      }
+  // Persist the outbox whenever it changes
+  useEffect(() => {
+    Outbox.save(outbox);
+  }, [outbox]);
 
-      // Mark as completed
-      processAndDisplayContent(accumulatedContent, aiMessage.id, true);
-    } catch (error) {
-      console.error('Error simulating stream:', error);
-      
-      // Fallback to combined_result.txt
-      try {
-        const response = await fetch('/combined_result.txt');
-        const combinedData = await response.text();
-        
-        processAndDisplayContent(combinedData, aiMessage.id, true);
-      } catch (fallbackError) {
-        console.error('Error loading combined result:', fallbackError);
-        
-        // Default response
-        processAndDisplayContent('Sorry, I encountered an error while processing your request.', aiMessage.id, true);
-      }
+  // Track connectivity; coming back online also lifts a backend-down pause
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      setOutboxBlocked(false);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Retry a blocked outbox after a pause, in case the backend recovers without a connectivity change
+  useEffect(() => {
+    if (!outboxBlocked) return;
+    const timer = setTimeout(() => setOutboxBlocked(false), OUTBOX_RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [outboxBlocked]);
+
+  // Deliver the oldest queued message whenever nothing else is in flight
+  const drainOutboxRef = useRef<() => void>(() => {});
+  drainOutboxRef.current = () => {
+    if (!isAuthenticated || !isOnline || outboxBlocked || isStreaming) return;
+    if (outbox.some(item => item.state === 'sending')) return;
+    const next = outbox.find(item => item.state === 'queued');
+    if (next) {
+      deliverOutboxItem(next);
     }
   };
+  useEffect(() => {
+    drainOutboxRef.current();
+  }, [outbox, isOnline, outboxBlocked, isStreaming, isAuthenticated]);
+
+  const handleEditQueued = (id: string, content: string) => {
+    updateOutboxItem(id, { content });
+  };
+
+  const handleCancelQueued = (id: string) => {
+    setOutbox(prev => prev.filter(item => item.id !== id || item.state === 'sending'));
+  };
+
+  const handleRetryQueued = (id: string) => {
+    updateOutboxItem(id, { state: 'queued', error: undefined });
+    setOutboxBlocked(false);
+  };
+
+  // Re-ask the question that produced a failed AI message, replacing the failed reply
+  const handleRetryMessage = async (messageId: string) => {
+    if (!activeConversation || isStreaming) return;
+    const index = activeConversation.messages.findIndex(msg => msg.id === messageId);
+    const question = activeConversation.messages.slice(0, index).reverse().find(msg => msg.type === 'user');
+    if (index === -1 || !question) return;
+
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversation.id
+          ? { ...conv, messages: conv.messages.filter(msg => msg.id !== messageId) }
+          : conv
+      )
+    );
+
+    setIsStreaming(true);
+    await streamResponseFromAPI(activeConversation.id, question.content, question.attachments);
+  };
 
   const handleStopStream = () => {
+    const stream = activeStreamRef.current;
+    if (stream) {
+      // Cancels the fetch and its body reader; the stream loop marks the message as stopped
+      stream.controller.abort();
+      if (stream.backendMessageId) {
+        ApiService.cancelMessage(stream.conversationId, stream.backendMessageId);
+      }
+    }
+
     setIsStreaming(false);
-    // Mark current streaming message as completed
+    // Mark current streaming message as stopped by the user
     setConversations(prev => 
       prev.map(conv => 
-        conv.id === activeConversationId
+        conv.id === (stream?.conversationId ?? activeConversationId)
           ? {
               ...conv,
               messages: conv.messages.map(msg => 
                 msg.status === 'streaming'
-                  ? { ...msg, status: 'completed' }
+                  ? { ...msg, status: 'stopped' }
                   : msg
               ),
             }
@@ -340,23 +839,86 @@ function App() {
     );
   };
 
+  const handleLogin = async (email: string, password: string) => {
+    const provider = getAuthProvider();
+    if (!provider.login) {
+      throw new Error('This sign-in method does not support password login');
+    }
+    await provider.login(email, password);
+  };
+
+  if (!isAuthenticated) {
+    return <LoginScreen onLogin={handleLogin} />;
+  }
+
+  // Queued messages render at the end of their conversation until they are delivered
+  const displayedConversation = activeConversation
+    ? {
+        ...activeConversation,
+        messages: [
+          ...activeConversation.messages,
+          ...outbox
+            .filter(item => item.conversationId === activeConversation.id && !activeConversation.messages.some(msg => msg.id === item.id))
+            .map((item): Message => ({
+              id: item.id,
+              content: item.content,
+              type: 'user',
+              timestamp: item.createdAt,
+              delivery: item.state,
+              error: item.error,
+              attachments: item.attachments,
+            })),
+        ],
+      }
+    : null;
+
   return (
     <div className="h-screen flex bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100">
       <Sidebar
         conversations={conversations}
         activeConversationId={activeConversationId}
         onConversationSelect={handleConversationSelect}
-  onNewConversation={handleNewConversation}
+        onSearchResultSelect={handleSearchResultSelect}
+        onRenameConversation={(id, title) => handleUpdateConversation(id, { title, titleLocked: true })}
+        onPinConversation={(id, pinned) => handleUpdateConversation(id, { pinned })}
+        onArchiveConversation={(id, archived) => handleUpdateConversation(id, { archived })}
+        onDuplicateConversation={handleDuplicateConversation}
+        onExportConversation={handleExportConversation}
+        onDeleteConversation={handleDeleteConversation}
+  onNewConversation={() => handleConversationSelect(null)}
   onLoadMoreConversations={loadMoreConversations}
   hasNextConversations={convHasNext}
   isLoadingConversations={convLoading}
+        error={convError?.message}
+        onRetry={convError?.retry}
+        onDismissError={() => setConvError(null)}
+        onLogout={USE_MOCK_BACKEND ? undefined : () => getAuthProvider().logout()}
       />
       <ChatInterface
-        conversation={activeConversation || null}
+        conversation={displayedConversation}
         onSendMessage={handleSendMessage}
+        onNewConversation={handleNewConversation}
+        onUpdateDataSources={handleUpdateDataSources}
+        sourcesError={sourcesError && sourcesError.conversationId === activeConversationId ? sourcesError : undefined}
+        onDismissSourcesError={() => setSourcesError(null)}
+        isOffline={!isOnline}
+        onEditQueued={handleEditQueued}
+        onCancelQueued={handleCancelQueued}
+        onRetryQueued={handleRetryQueued}
         isStreaming={isStreaming}
         onStopStream={handleStopStream}
+        onRetryMessage={handleRetryMessage}
+        focusedMessageId={focusedMessage?.conversationId === activeConversationId ? focusedMessage?.messageId : undefined}
+        loadError={activeConversationId ? messagesErrors[activeConversationId] : undefined}
+        onRetryLoad={activeConversation ? () => loadConversationMessages(activeConversation.id, activeConversation.timestamp) : undefined}
       />
+      {pendingDelete && (
+        <UndoToast
+          message={`Deleted "${pendingDelete.conversation.title}"`}
+          onUndo={handleUndoDelete}
+          onDismiss={flushPendingDelete}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import ChartArtifact from '../components/ChartArtifact';
+import ChartSkeleton from '../components/ChartSkeleton';
+import { parseLenientJson, validateEChartsOptions } from './chartSpec';
+import { registerArtifact } from './registry';
+import { matchTag, openTagText } from './tags';
+
+export interface ChartPayload {
+  title: string;
+  // Legacy nested echart_artifact with JSON options
+  chartOptions?: Record<string, unknown>;
+  // CDN-hosted chart HTML pages (e.g., Plotly render URLs)
+  htmlCdnUrl?: string;
+  // Direct Plotly (or other) JSON config via URL
+  jsonCdnUrl?: string;
+  // Set when the inline options could not be parsed or validated; the raw text is kept for the error card
+  error?: string;
+  rawSpec?: string;
+}
+
+registerArtifact<ChartPayload>({
+  tag: 'chart_artifact',
+  parse: content => {
+    const titleMatch = matchTag(content, 'title');
+    if (!titleMatch) return null;
+    const title = titleMatch[1];
+
+    // New style (backend updated): direct JSON config URL
+    const jsonCdnUrlMatch = matchTag(content, 'json_cdn_url');
+    if (jsonCdnUrlMatch) {
+      return { title, jsonCdnUrl: jsonCdnUrlMatch[1].trim() };
+    }
+
+    // New style: Plotly or any HTML via CDN url
+    const cdnUrlMatch = matchTag(content, 'html_cdn_url');
+    if (cdnUrlMatch) {
+      return { title, htmlCdnUrl: cdnUrlMatch[1].trim() };
+    }
+
+    const echartMatch = matchTag(content, 'echart_artifact');
+    const optionsMatch = echartMatch && matchTag(echartMatch[1], 'chart_options');
+    if (optionsMatch) {
+      const rawSpec = optionsMatch[1].trim();
+      // Broken options still produce an artifact so the answer shows an error instead of silently losing the chart
+      const parsed = parseLenientJson(rawSpec);
+      if (!parsed.ok) return { title, error: parsed.error, rawSpec };
+      const validated = validateEChartsOptions(parsed.value);
+      if (!validated.ok) return { title, error: validated.error, rawSpec };
+      return { title, chartOptions: validated.value, rawSpec };
+    }
+    return null;
+  },
+  parsePartial: content => ({ title: openTagText(content, 'title') ?? '' }),
+  render: ({ payload, pending }) =>
+    pending ? (
+      <ChartSkeleton title={payload.title} />
+    ) : (
+      <ChartArtifact
+        title={payload.title}
+        chartOptions={payload.chartOptions}
+        htmlCdnUrl={payload.htmlCdnUrl}
+        jsonCdnUrl={payload.jsonCdnUrl}
+        specError={payload.error}
+        rawSpec={payload.rawSpec}
+      />
+    ),
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseLenientJson, repairJson } from './chartSpec';
+
+describe('repairJson', () => {
+  it('fixes comments, trailing commas, single quotes, bare keys and non-JSON numbers', () => {
+    const text = "{\n  // title\n  title: 'Weekly COGS',\n  data: [1, NaN, -Infinity, undefined,],\n  /* note */ note: 'it\\'s \"fine\"',\n}";
+    expect(JSON.parse(repairJson(text))).toEqual({
+      title: 'Weekly COGS',
+      data: [1, null, null, null],
+      note: 'it\'s "fine"',
+    });
+  });
+
+  it('leaves string contents alone', () => {
+    const text = '{"label": "a, b, // not a comment, NaN"}';
+    expect(repairJson(text)).toBe(text);
+  });
+
+  it('does not turn truncated input into a value', () => {
+    for (const text of ['{"series": [1, 2', '{"name": "wee', '{"name": "a\\', "{title: 'x', data: [1,2,],", '{"a": 1, // c', '{"a": /* x']) {
+      expect(() => repairJson(text)).not.toThrow();
+      expect(parseLenientJson(text)).toMatchObject({ ok: false });
+    }
+  });
+});
+
+describe('parseLenientJson', () => {
+  it('reports whether the text needed repairs', () => {
+    expect(parseLenientJson('{"a": 1}')).toEqual({ ok: true, value: { a: 1 }, repaired: false });
+    expect(parseLenientJson('{a: 1,}')).toEqual({ ok: true, value: { a: 1 }, repaired: true });
+  });
+});
@@ -0,0 +1,162 @@
+// Parsing and validation for chart specs written by the model: ECharts options in
+// <chart_options> and Plotly figures fetched from <json_cdn_url>
+
+export type ChartSpecResult<T> =
+  | { ok: true; value: T; repaired: boolean }
+  | { ok: false; error: string };
+
+/* ---------------- lenient JSON ---------------- */
+
+// Rewrite the JSON mistakes LLMs make most: comments, trailing commas, single-quoted
+// strings, unquoted keys and bare NaN / Infinity / undefined. String contents are left untouched.
+export const repairJson = (text: string): string => {
+  let out = '';
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const next = text[index + 1];
+
+    if (char === '"' || char === "'") {
+      // Copy the string, re-quoting single-quoted ones
+      let value = '';
+      index++;
+      while (index < text.length && text[index] !== char) {
+        if (text[index] === '\\' && index + 1 < text.length) {
+          const escaped = text[index + 1];
+          value += escaped === "'" ? "'" : `\\${escaped}`;
+          index += 2;
+          continue;
+        }
+        value += text[index] === '"' ? '\\"' : text[index] === '\n' ? '\\n' : text[index];
+        index++;
+      }
+      out += `"${value}"`;
+      index++;
+      continue;
+    }
+    if (char === '/' && next === '/') {
+      while (index < text.length && text[index] !== '\n') index++;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 2;
+      continue;
+    }
+    if (char === ',') {
+      // Drop the comma if only whitespace/comments separate it from a closing bracket
+      const rest = text.slice(index + 1).replace(/^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/, '');
+      if (rest.startsWith('}') || rest.startsWith(']')) {
+        index++;
+        continue;
+      }
+    }
+    // Bare object keys: an identifier right after `{` or `,` and followed by `:`
+    const key = /[{,]\s*$/.test(out) ? text.slice(index).match(/^([A-Za-z_$][\w$]*)\s*:/) : null;
+    if (key) {
+      out += `"${key[1]}"`;
+      index += key[1].length;
+      continue;
+    }
+    const word = text.slice(index).match(/^-?(NaN|Infinity|undefined)\b/);
+    if (word && !/[\w$]/.test(text[index - 1] ?? '')) {
+      out += 'null';
+      index += word[0].length;
+      continue;
+    }
+    out += char;
+    index++;
+  }
+  return out;
+};
+
+export const parseLenientJson = (text: string): ChartSpecResult<unknown> => {
+  try {
+    return { ok: true, value: JSON.parse(text), repaired: false };
+  } catch (error) {
+    try {
+      return { ok: true, value: JSON.parse(repairJson(text)), repaired: true };
+    } catch {
+      return { ok: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+};
+
+/* ---------------- schema checks ---------------- */
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const ECHARTS_SERIES_TYPES = new Set([
+  'line', 'bar', 'pie', 'scatter', 'effectScatter', 'radar', 'tree', 'treemap', 'sunburst', 'boxplot',
+  'candlestick', 'heatmap', 'map', 'parallel', 'lines', 'graph', 'sankey', 'funnel', 'gauge',
+  'pictorialBar', 'themeRiver', 'custom',
+]);
+// Series types drawn on x/y axes unless placed on a polar or single axis
+const CARTESIAN_TYPES = new Set(['line', 'bar', 'scatter', 'effectScatter', 'boxplot', 'candlestick', 'pictorialBar']);
+
+export type EChartsOptions = Record<string, unknown>;
+
+// Problems that would make echarts.setOption throw or draw nothing
+export const validateEChartsOptions = (options: unknown): ChartSpecResult<EChartsOptions> => {
+  if (!isObject(options)) return { ok: false, error: 'Chart options must be a JSON object' };
+
+  const series = asArray(options.series);
+  if (series.length === 0) return { ok: false, error: 'Chart options have no `series`' };
+
+  for (const [index, item] of series.entries()) {
+    if (!isObject(item)) return { ok: false, error: `series[${index}] is not an object` };
+    if (typeof item.type !== 'string' || !ECHARTS_SERIES_TYPES.has(item.type)) {
+      return { ok: false, error: `series[${index}] has unknown type ${JSON.stringify(item.type)}` };
+    }
+    if (item.data !== undefined && !Array.isArray(item.data) && !isObject(item.data)) {
+      return { ok: false, error: `series[${index}].data must be an array` };
+    }
+    const onOtherAxes = item.coordinateSystem === 'polar' || item.coordinateSystem === 'singleAxis';
+    if (CARTESIAN_TYPES.has(item.type) && !onOtherAxes && (options.xAxis === undefined || options.yAxis === undefined)) {
+      return { ok: false, error: `series[${index}] (${item.type}) needs both xAxis and yAxis` };
+    }
+  }
+
+  for (const axisKey of ['xAxis', 'yAxis']) {
+    for (const axis of asArray(options[axisKey])) {
+      if (!isObject(axis)) return { ok: false, error: `${axisKey} must be an object or array of objects` };
+      if (axis.data !== undefined && !Array.isArray(axis.data)) return { ok: false, error: `${axisKey}.data must be an array` };
+    }
+  }
+  return { ok: true, value: options, repaired: false };
+};
+
+export interface PlotlyFigure {
+  data: Record<string, unknown>[];
+  layout: Record<string, unknown>;
+  config?: Record<string, unknown>;
+}
+
+// Plotly typed arrays arrive as { dtype, bdata }
+const isPlotlyArray = (value: unknown) =>
+  Array.isArray(value) || (isObject(value) && typeof value.dtype === 'string' && typeof value.bdata === 'string');
+
+// Accepts a full figure, a `{ figure }` wrapper, `{ traces }`, or a bare trace array
+export const validatePlotlyFigure = (spec: unknown): ChartSpecResult<PlotlyFigure> => {
+  const figure = isObject(spec) && isObject(spec.figure) ? spec.figure : spec;
+  const data = Array.isArray(figure) ? figure : isObject(figure) ? figure.data ?? figure.traces : undefined;
+  if (!Array.isArray(data) || data.length === 0) return { ok: false, error: 'Plotly figure has no `data` traces' };
+
+  for (const [index, trace] of data.entries()) {
+    if (!isObject(trace)) return { ok: false, error: `data[${index}] is not an object` };
+    if (trace.type !== undefined && typeof trace.type !== 'string') return { ok: false, error: `data[${index}].type must be a string` };
+    for (const key of ['x', 'y', 'z', 'values', 'labels']) {
+      if (trace[key] !== undefined && !isPlotlyArray(trace[key])) {
+        return { ok: false, error: `data[${index}].${key} must be an array` };
+      }
+    }
+  }
+
+  const layout = isObject(figure) ? figure.layout ?? (isObject(spec) ? spec.layout : undefined) ?? {} : {};
+  if (!isObject(layout)) return { ok: false, error: 'Plotly `layout` must be an object' };
+  const config = isObject(figure) && isObject(figure.config) ? figure.config : undefined;
+  return { ok: true, value: { data: data as Record<string, unknown>[], layout, config }, repaired: false };
+};
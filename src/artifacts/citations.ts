@@ -0,0 +1,90 @@
+import { createContext } from 'react';
+import type { ArtifactContent, ParsedContent } from '../types';
+import { matchTag } from './tags';
+
+export const SOURCE_TAG = 'source';
+
+// Provenance for a figure in an answer, from a <source> artifact:
+//   <source><id>1</id><dataset>sales</dataset><table>orders</table>
+//     <columns>region, revenue</columns><filters><filter>year = 2024</filter></filters></source>
+export interface SourceReference {
+  id: string;
+  dataset?: string;
+  table?: string;
+  columns: string[];
+  filters: string[];
+  title?: string;
+  description?: string;
+}
+
+const text = (content: string, tag: string) => matchTag(content, tag)?.[1].trim() || undefined;
+
+// `<columns>a, b</columns>` or `<columns><column>a</column>...</columns>`
+const list = (content: string, tag: string, itemTag: string, separator: RegExp) => {
+  const body = matchTag(content, tag)?.[1];
+  if (!body) return [];
+  const items = Array.from(body.matchAll(new RegExp(`<${itemTag}>([\\s\\S]*?)</${itemTag}>`, 'g')), match => match[1]);
+  return (items.length > 0 ? items : body.split(separator)).map(item => item.trim()).filter(Boolean);
+};
+
+export const parseSourceReference = (content: string): SourceReference | null => {
+  const source: SourceReference = {
+    id: text(content, 'id') ?? '',
+    dataset: text(content, 'dataset'),
+    table: text(content, 'table'),
+    columns: list(content, 'columns', 'column', /,/),
+    // Filters may contain commas ("region IN ('EU', 'US')"), so only newlines separate them
+    filters: list(content, 'filters', 'filter', /\n/),
+    title: text(content, 'title'),
+    description: text(content, 'description'),
+  };
+  return source.dataset || source.table || source.title ? source : null;
+};
+
+// One-line provenance, as pasted next to a figure in a deck
+export const describeSource = (source: SourceReference, label: string) => {
+  const location = [source.dataset, source.table].filter(Boolean).join('.') || source.title || 'Unknown source';
+  const columns = source.columns.length > 0 ? ` (${source.columns.join(', ')})` : '';
+  const filters = source.filters.length > 0 ? ` where ${source.filters.join(' AND ')}` : '';
+  return `[${label}] ${location}${columns}${filters}`;
+};
+
+export const isSourcePart = (part: ParsedContent): part is ArtifactContent =>
+  part.type === 'artifact' && part.tag === SOURCE_TAG;
+
+// A message's sources in order; ones without an `<id>` are numbered by position
+export const collectSources = (parts: ParsedContent[]): SourceReference[] =>
+  parts
+    .filter(isSourcePart)
+    .flatMap(part => (part.payload ? [part.payload as SourceReference] : []))
+    .map((source, index) => (source.id ? source : { ...source, id: String(index + 1) }));
+
+export const CITATION_HREF_PREFIX = '#citation-';
+
+// Turn inline `<citation>1</citation>` (or `<citation>1, 3</citation>`) markers into links the
+// markdown renderer draws as footnote numbers; code spans and fences are left alone
+export const linkCitations = (markdown: string): string =>
+  markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((segment, index) =>
+      index % 2 === 1
+        ? segment
+        : segment.replace(/<citation>([^<]*)<\/citation>/g, (_, ids: string) =>
+            ids
+              .split(',')
+              .map(id => id.trim())
+              .filter(Boolean)
+              .map(id => `[${id}](${CITATION_HREF_PREFIX}${encodeURIComponent(id)})`)
+              .join('')
+          )
+    )
+    .join('');
+
+export interface CitationContextValue {
+  sources: SourceReference[];
+  activeId: string | null;
+  select: (id: string) => void;
+}
+
+// Provided per message so footnote markers can find and highlight their source
+export const CitationContext = createContext<CitationContextValue | null>(null);
@@ -0,0 +1,19 @@
+import FollowUpQuestions from '../components/FollowUpQuestions';
+import { registerArtifact } from './registry';
+
+// Newline-separated question list, as FollowUpQuestions expects
+export type FollowupPayload = string;
+
+const parseQuestions = (content: string): FollowupPayload | null => {
+  const questionMatches = content.match(/<question>([\s\S]*?)<\/question>/g);
+  if (!questionMatches) return null;
+  return questionMatches.map(q => q.replace(/<\/?question>/g, '')).join('\n');
+};
+
+registerArtifact<FollowupPayload>({
+  tag: 'followup_question',
+  parse: parseQuestions,
+  // Show the questions that are already complete
+  parsePartial: parseQuestions,
+  render: ({ payload, onQuestionClick }) => <FollowUpQuestions questions={payload} onQuestionClick={onQuestionClick} />,
+});
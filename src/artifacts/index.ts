@@ -0,0 +1,10 @@
+// Built-in artifact kinds. To support a new backend tag, add a module that calls
+// registerArtifact() and import it here.
+import './python';
+import './chart';
+import './followup';
+import './table';
+import './source';
+
+export { getArtifactDefinition, isArtifactTag, registerArtifact } from './registry';
+export type { ArtifactDefinition, ArtifactRenderProps } from './registry';
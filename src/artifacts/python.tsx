@@ -0,0 +1,25 @@
+import PythonArtifactView from '../components/PythonArtifactView';
+import { registerArtifact } from './registry';
+import { matchTag, openTagText } from './tags';
+
+export interface PythonPayload {
+  title: string;
+  code: string;
+}
+
+registerArtifact<PythonPayload>({
+  tag: 'python_artifact',
+  parse: content => {
+    const titleMatch = matchTag(content, 'title');
+    const codeMatch = matchTag(content, 'code');
+    if (!titleMatch || !codeMatch) return null;
+    return { title: titleMatch[1], code: codeMatch[1].trim() };
+  },
+  // Code grows as it streams in
+  parsePartial: content => ({
+    title: openTagText(content, 'title') ?? '',
+    code: (openTagText(content, 'code') ?? '').replace(/^\s*\n/, ''),
+  }),
+  keepWhenUnclosed: true,
+  render: ({ payload, pending }) => <PythonArtifactView title={payload.title} code={payload.code} isStreaming={pending} />,
+});
@@ -0,0 +1,50 @@
+import { createElement } from 'react';
+import type React from 'react';
+
+// Props every artifact renderer receives
+export interface ArtifactRenderProps<P> {
+  payload: P;
+  // The closing tag has not streamed in yet; `payload` comes from `parsePartial`
+  pending: boolean;
+  onQuestionClick?: (question: string) => void;
+}
+
+// One artifact kind: the tag the backend emits, how to read its body, and how to draw it
+export interface ArtifactDefinition<P> {
+  tag: string;
+  // Parse the text between the opening and closing tag; null drops a malformed artifact
+  parse: (content: string) => P | null;
+  // Payload for an artifact that is still streaming; without it a generic placeholder is shown
+  parsePartial?: (content: string) => P | null;
+  // Keep the partial payload if the message ends before the closing tag (e.g. code written so far)
+  keepWhenUnclosed?: boolean;
+  render: React.ComponentType<ArtifactRenderProps<P>>;
+}
+
+// A definition with its payload type erased. Payloads are opaque outside their own definition,
+// which is the only code that reads them.
+export interface RegisteredArtifact {
+  tag: string;
+  parse: (content: string) => unknown;
+  parsePartial?: (content: string) => unknown;
+  keepWhenUnclosed?: boolean;
+  render: (props: ArtifactRenderProps<unknown>) => React.ReactNode;
+}
+
+const definitions = new Map<string, RegisteredArtifact>();
+
+export const registerArtifact = <P>(definition: ArtifactDefinition<P>) => {
+  if (definitions.has(definition.tag)) {
+    console.warn(`Artifact <${definition.tag}> registered twice; the later definition wins`);
+  }
+  definitions.set(definition.tag, {
+    ...definition,
+    // Only payloads produced by this definition's own parsers ever reach its renderer
+    render: props => createElement(definition.render, props as ArtifactRenderProps<P>),
+  });
+};
+
+export const getArtifactDefinition = (tag: string): RegisteredArtifact | undefined => definitions.get(tag);
+
+// Tags a registered artifact kind handles
+export const isArtifactTag = (tag: string) => definitions.has(tag);
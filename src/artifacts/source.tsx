@@ -0,0 +1,11 @@
+import SourcesPanel from '../components/SourcesPanel';
+import type { SourceReference } from './citations';
+import { SOURCE_TAG, parseSourceReference } from './citations';
+import { registerArtifact } from './registry';
+
+// Messages collect their sources into one panel; this renderer covers a source shown on its own
+registerArtifact<SourceReference>({
+  tag: SOURCE_TAG,
+  parse: parseSourceReference,
+  render: ({ payload }) => <SourcesPanel sources={[{ ...payload, id: payload.id || '1' }]} />,
+});
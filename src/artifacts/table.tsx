@@ -0,0 +1,34 @@
+import DataGrid from '../components/DataGrid';
+import { registerArtifact } from './registry';
+import { detectTables, parseCsvTable, parseJsonTable } from './tableData';
+import type { TableData } from './tableData';
+import { matchTag } from './tags';
+
+export interface TablePayload {
+  title: string;
+  table: TableData;
+}
+
+// The body is JSON in <data>, CSV in <csv>, or a markdown / fixed-width table as plain text
+const parseTableBody = (content: string): TableData | null => {
+  const dataMatch = matchTag(content, 'data');
+  if (dataMatch) return parseJsonTable(dataMatch[1].trim());
+  const csvMatch = matchTag(content, 'csv');
+  if (csvMatch) return parseCsvTable(csvMatch[1].trim());
+
+  const text = content.replace(/<title>[\s\S]*?<\/title>/, '');
+  for (const segment of detectTables(text)) {
+    if (segment.kind === 'table') return segment.table;
+  }
+  return null;
+};
+
+registerArtifact<TablePayload>({
+  tag: 'table_artifact',
+  parse: content => {
+    const table = parseTableBody(content);
+    if (!table) return null;
+    return { title: matchTag(content, 'title')?.[1].trim() ?? '', table };
+  },
+  render: ({ payload }) => <DataGrid title={payload.title} table={payload.table} />,
+});
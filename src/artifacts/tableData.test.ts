@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { detectTables, parseFixedWidthTable, parseMarkdownTable } from './tableData';
+
+describe('parseMarkdownTable', () => {
+  it('types columns as numeric only when every present value is a number', () => {
+    const table = parseMarkdownTable([
+      '| Week | COGS | Note |',
+      '|:-----|-----:|------|',
+      '| W1 | 1,200 | ok |',
+      '| W2 | NaN | 12 |',
+      '| W3 | 12.5% | a \\| b |',
+    ]);
+    expect(table).toEqual({
+      columns: [
+        { name: 'Week', numeric: false },
+        { name: 'COGS', numeric: true },
+        { name: 'Note', numeric: false },
+      ],
+      rows: [
+        ['W1', 1200, 'ok'],
+        ['W2', null, '12'],
+        ['W3', 12.5, 'a | b'],
+      ],
+    });
+  });
+
+  it('rejects text without a separator row or with a single column', () => {
+    expect(parseMarkdownTable(['| a | b |', '| 1 | 2 |', '| 3 | 4 |'])).toBeNull();
+    expect(parseMarkdownTable(['| a |', '|---|', '| 1 |'])).toBeNull();
+  });
+});
+
+describe('parseFixedWidthTable', () => {
+  it('reads pandas output with an unnamed index and a preamble', () => {
+    const result = parseFixedWidthTable('Top weeks:\n   week   cogs\n0    W1  120.5\n1    W2   98.0\n\n[2 rows x 2 columns]');
+    expect(result?.preamble).toBe('Top weeks:');
+    expect(result?.table.columns.map(column => column.name)).toEqual(['#', 'week', 'cogs']);
+    expect(result?.table.rows).toEqual([
+      [0, 'W1', 120.5],
+      [1, 'W2', 98],
+    ]);
+  });
+
+  it('leaves prose alone', () => {
+    expect(parseFixedWidthTable('COGS fell last week.\nMargins held up.\nNothing else changed.')).toBeNull();
+  });
+});
+
+describe('detectTables', () => {
+  it('splits prose from the tables inside it', () => {
+    const segments = detectTables('Summary:\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\nThat is all.');
+    expect(segments.map(segment => segment.kind)).toEqual(['text', 'table', 'text']);
+  });
+});
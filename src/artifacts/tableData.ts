@@ -0,0 +1,233 @@
+// Tabular data shared by <table_artifact>, pandas-style output and markdown tables
+
+export type TableCell = string | number | null;
+
+export interface TableColumn {
+  name: string;
+  // Every non-empty value in the column is a number
+  numeric: boolean;
+}
+
+export interface TableData {
+  columns: TableColumn[];
+  rows: TableCell[][];
+}
+
+// A run of plain text or a table found inside it
+export type TableSegment = { kind: 'text'; text: string } | { kind: 'table'; table: TableData };
+
+const NUMBER_PATTERN = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][-+]?\d+)?%?$/;
+
+const toNumber = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed || !/\d/.test(trimmed) || !NUMBER_PATTERN.test(trimmed)) return null;
+  const number = Number(trimmed.replace(/[,%]/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+const isMissing = (value: string) => /^(|nan|NaN|None|null|NaT|<NA>)$/.test(value.trim());
+
+// Build a table from raw string cells, typing each column as numeric when every value is
+export const buildTable = (header: string[], body: string[][]): TableData => {
+  const columns = header.map((name, index) => {
+    const values = body.map(row => row[index] ?? '').filter(value => !isMissing(value));
+    return { name: name.trim(), numeric: values.length > 0 && values.every(value => toNumber(value) !== null) };
+  });
+  const rows = body.map(row =>
+    columns.map((column, index) => {
+      const value = (row[index] ?? '').trim();
+      if (isMissing(value)) return null;
+      return column.numeric ? toNumber(value) : value;
+    })
+  );
+  return { columns, rows };
+};
+
+/* ---------------- markdown tables ---------------- */
+
+const splitMarkdownRow = (line: string) =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isMarkdownSeparator = (line: string) => /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line);
+
+export const parseMarkdownTable = (lines: string[]): TableData | null => {
+  if (lines.length < 3 || !isMarkdownSeparator(lines[1]) || !lines[0].includes('|')) return null;
+  const header = splitMarkdownRow(lines[0]);
+  if (header.length < 2) return null;
+  return buildTable(header, lines.slice(2).map(splitMarkdownRow));
+};
+
+/* ---------------- pandas fixed-width output ---------------- */
+
+// Character ranges separated by columns that are blank in every line
+const columnSpans = (lines: string[]): Array<[number, number]> => {
+  const width = Math.max(...lines.map(line => line.length));
+  const spans: Array<[number, number]> = [];
+  let start = -1;
+  for (let position = 0; position <= width; position++) {
+    const blank = position === width || lines.every(line => (line[position] ?? ' ') === ' ');
+    if (!blank && start === -1) start = position;
+    if (blank && start !== -1) {
+      spans.push([start, position]);
+      start = -1;
+    }
+  }
+  return spans;
+};
+
+// Pandas prints "..." rows for truncated frames and a "[n rows x m columns]" footer
+const isPandasNoise = (line: string) => /^[\s.]*\.\.\.[\s.]*$/.test(line) || /^\[\d+ rows x \d+ columns\]$/.test(line.trim());
+
+const parseFixedWidthLines = (lines: string[]): TableData | null => {
+  const tableLines = lines.filter(line => !isPandasNoise(line));
+  if (tableLines.length < 3) return null;
+  const spans = columnSpans(tableLines);
+  if (spans.length < 2) return null;
+
+  const cells = tableLines.map(line => spans.map(([start, end]) => line.slice(start, end).trim()));
+  const [header, ...body] = cells;
+  // Every column but a leading unnamed index needs a name, and a header line never ends a sentence
+  if (header.slice(1).some(name => !name) || /[:.]$/.test(tableLines[0].trim())) return null;
+  if (body.some(row => row.filter(Boolean).length < Math.ceil(spans.length / 2))) return null;
+
+  const table = buildTable(header.map((name, index) => name || (index === 0 ? '#' : '')), body);
+  // The first row is a second header line if it breaks an otherwise numeric column
+  const firstRowIsHeader = body.length > 2 && header.some((_, index) => {
+    const rest = body.slice(1).map(row => row[index]).filter(value => !isMissing(value));
+    return rest.length > 0 && rest.every(value => toNumber(value) !== null) && toNumber(body[0][index]) === null;
+  });
+  return firstRowIsHeader ? null : table;
+};
+
+// Parse `DataFrame.to_string()` output, skipping up to a few lines of preamble above the header
+export const parseFixedWidthTable = (text: string): { table: TableData; preamble: string } | null => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').filter(line => line.trim() !== '');
+  for (let start = 0; start < Math.min(4, lines.length - 2); start++) {
+    const table = parseFixedWidthLines(lines.slice(start));
+    if (table) {
+      return { table, preamble: lines.slice(0, start).join('\n') };
+    }
+  }
+  return null;
+};
+
+/* ---------------- detection in free text ---------------- */
+
+// Split text into prose and tables. Blank-line separated blocks are tried as markdown
+// tables first, then as pandas-style fixed-width output.
+export const detectTables = (text: string): TableSegment[] => {
+  const segments: TableSegment[] = [];
+  const pushText = (value: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === 'text') {
+      last.text += `\n\n${value}`;
+    } else {
+      segments.push({ kind: 'text', text: value });
+    }
+  };
+
+  for (const block of text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    if (!block.trim()) continue;
+    const lines = block.split('\n');
+    const separator = lines.findIndex(isMarkdownSeparator);
+    const markdown = separator > 0 ? parseMarkdownTable(lines.slice(separator - 1)) : null;
+    if (markdown) {
+      if (separator > 1) pushText(lines.slice(0, separator - 1).join('\n'));
+      segments.push({ kind: 'table', table: markdown });
+      continue;
+    }
+    const fixedWidth = parseFixedWidthTable(block);
+    if (fixedWidth) {
+      if (fixedWidth.preamble) pushText(fixedWidth.preamble);
+      segments.push({ kind: 'table', table: fixedWidth.table });
+      continue;
+    }
+    pushText(block);
+  }
+  return segments;
+};
+
+/* ---------------- structured payloads ---------------- */
+
+// Accepts `[{col: value}, ...]` records or `{ columns: [...], rows|data: [[...], ...] }`
+export const parseJsonTable = (json: string): TableData | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const stringify = (cell: unknown) => (cell === null || cell === undefined ? '' : String(cell));
+  if (Array.isArray(value)) {
+    const records = value.filter((row): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row));
+    if (records.length === 0) return null;
+    const header = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    return buildTable(header, records.map(record => header.map(name => stringify(record[name]))));
+  }
+  if (value && typeof value === 'object') {
+    const { columns, rows, data } = value as { columns?: unknown; rows?: unknown; data?: unknown };
+    const body = Array.isArray(rows) ? rows : data;
+    if (!Array.isArray(columns) || !Array.isArray(body)) return null;
+    return buildTable(
+      columns.map(stringify),
+      body.filter(Array.isArray).map(row => row.map(stringify))
+    );
+  }
+  return null;
+};
+
+export const splitCsvLine = (line: string, delimiter = ','): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+export const parseCsvTable = (csv: string): TableData | null => {
+  const lines = csv.replace(/\r\n?/g, '\n').split('\n').filter(line => line.trim() !== '');
+  if (lines.length < 2) return null;
+  return buildTable(splitCsvLine(lines[0]), lines.slice(1).map(line => splitCsvLine(line)));
+};
+
+const escapeCsvCell = (cell: TableCell) => {
+  const text = cell === null ? '' : String(cell);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tableToCsv = (columns: TableColumn[], rows: TableCell[][]): string =>
+  [columns.map(column => escapeCsvCell(column.name)), ...rows.map(row => row.map(escapeCsvCell))]
+    .map(cells => cells.join(','))
+    .join('\n');
+
+// Tab-separated text pastes straight into spreadsheets
+export const tableToTsv = (columns: TableColumn[], rows: TableCell[][]): string =>
+  [columns.map(column => column.name), ...rows.map(row => row.map(cell => (cell === null ? '' : String(cell))))]
+    .map(cells => cells.join('\t'))
+    .join('\n');
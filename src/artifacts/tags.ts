@@ -0,0 +1,12 @@
+// Helpers for reading the XML-ish child tags inside an artifact body
+
+export const matchTag = (content: string, tag: string) => content.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+
+// Text of a tag that may still be streaming: everything after `<tag>`, minus any half-written closing tag
+export const openTagText = (content: string, tag: string): string | undefined => {
+  const start = content.indexOf(`<${tag}>`);
+  if (start === -1) return undefined;
+  const rest = content.slice(start + tag.length + 2);
+  const end = rest.indexOf(`</${tag}>`);
+  return end === -1 ? rest.replace(/<[^>]*$/, '') : rest.slice(0, end);
+};
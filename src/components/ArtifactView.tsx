@@ -0,0 +1,32 @@
+import React from 'react';
+import type { ArtifactContent } from '../types';
+import { getArtifactDefinition } from '../artifacts';
+import UnsupportedArtifact from './UnsupportedArtifact';
+
+interface ArtifactViewProps {
+  artifact: ArtifactContent;
+  onQuestionClick?: (question: string) => void;
+}
+
+// Renders a parsed artifact with the renderer registered for its tag
+const ArtifactView: React.FC<ArtifactViewProps> = ({ artifact, onQuestionClick }) => {
+  const definition = getArtifactDefinition(artifact.tag);
+
+  if (!definition) {
+    return <UnsupportedArtifact tag={artifact.tag} content={artifact.content} pending={artifact.pending} />;
+  }
+
+  // Kinds without a partial parser show a generic placeholder until their closing tag arrives
+  if (artifact.payload === null) {
+    return (
+      <div className="flex items-center space-x-2 p-4 border border-gray-200 rounded-lg bg-gray-50 text-sm text-gray-500 animate-pulse">
+        <div className="w-2 h-2 bg-gray-400 rounded-full" />
+        <span>Loading {artifact.tag.replace(/_/g, ' ')}…</span>
+      </div>
+    );
+  }
+
+  return definition.render({ payload: artifact.payload, pending: !!artifact.pending, onQuestionClick });
+};
+
+export default ArtifactView;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { FileJson, FileSpreadsheet } from 'lucide-react';
+import type { Attachment } from '../types';
+import { formatBytes } from '../utils';
+
+interface AttachmentChipProps {
+  attachment: Attachment;
+}
+
+// A file sent with a user message, shown on the message bubble
+const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment }) => {
+  const Icon = attachment.format === 'json' ? FileJson : FileSpreadsheet;
+  return (
+    <span
+      className="inline-flex items-center space-x-1.5 px-2 py-1 rounded-lg bg-white/15 border border-white/25 text-xs"
+      title={attachment.name}
+    >
+      <Icon size={12} className="flex-shrink-0" />
+      <span className="max-w-48 truncate">{attachment.name}</span>
+      <span className="opacity-75 flex-shrink-0">{formatBytes(attachment.size)}</span>
+    </span>
+  );
+};
+
+export default AttachmentChip;
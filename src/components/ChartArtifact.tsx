@@ -1,18 +1,39 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { BarChart3, Download, Maximize2 } from 'lucide-react';
 import * as echarts from 'echarts';
+import { contentHostOf, isTrustedContentUrl, sanitizeEChartsOptions } from '../sanitize';
+import { parseLenientJson, validatePlotlyFigure } from '../artifacts/chartSpec';
+import type { ChartSpecResult, PlotlyFigure } from '../artifacts/chartSpec';
+import type { BadChartReport } from '../services/api';
+import ChartErrorCard from './ChartErrorCard';
+import SandboxedChartFrame from './SandboxedChartFrame';
+import type { ChartFrameHandle } from './SandboxedChartFrame';
 
 // Ensure Plotly is available when external HTML expects it
 const PLOTLY_CDN_URL = 'https://cdn.plot.ly/plotly-2.35.2.min.js';
 
 interface ChartArtifactProps {
 	title: string;
-	chartOptions?: any;
+	chartOptions?: Record<string, unknown>;
 	htmlCdnUrl?: string; // external pre-rendered HTML page
 	jsonCdnUrl?: string; // remote JSON configuration (e.g., Plotly spec)
+	specError?: string; // inline options failed to parse or validate
+	rawSpec?: string; // inline options as written by the model
 }
 
-const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, htmlCdnUrl, jsonCdnUrl }) => {
+interface SpecFailure {
+	error: string;
+	spec: string;
+	source: BadChartReport['source'];
+}
+
+// Parse (repairing common mistakes) and validate a Plotly figure from fetched text
+const readPlotlyFigure = (text: string): ChartSpecResult<PlotlyFigure> => {
+	const parsed = parseLenientJson(text);
+	return parsed.ok ? validatePlotlyFigure(parsed.value) : parsed;
+};
+
+const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, htmlCdnUrl, jsonCdnUrl, specError, rawSpec }) => {
 	const chartRef = useRef<HTMLDivElement>(null);
 	const chartInstanceRef = useRef<echarts.ECharts | null>(null);
 	const plotlyRef = useRef<HTMLDivElement>(null);
@@ -20,7 +41,7 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 	// External HTML rendering
 	const isExternalHtml = !!htmlCdnUrl;
 	const isJsonPlotly = !!jsonCdnUrl;
-	const externalContainerRef = useRef<HTMLDivElement>(null);
+	const frameRef = useRef<ChartFrameHandle>(null);
 	const [htmlContent, setHtmlContent] = useState<string>('');
 	const [loadingHtml, setLoadingHtml] = useState<boolean>(false);
 	const [htmlError, setHtmlError] = useState<string | null>(null);
@@ -28,11 +49,17 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 	const [jsonError, setJsonError] = useState<string | null>(null);
 	const [loadingJson, setLoadingJson] = useState<boolean>(false);
 	// If the external URL returns JSON instead of HTML, we detect and render via Plotly
-	const [detectedPlotlySpec, setDetectedPlotlySpec] = useState<any | null>(null);
+	const [detectedPlotlySpec, setDetectedPlotlySpec] = useState<PlotlyFigure | null>(null);
+	// A spec that loaded but failed validation or threw while rendering
+	const [specFailure, setSpecFailure] = useState<SpecFailure | null>(null);
 
-	// Fetch and render external HTML inline; fallback to iframe on CORS errors
+	// Fetch external HTML and render it in a sandboxed frame; fall back to loading the URL directly on CORS errors
 	useEffect(() => {
 		if (!isExternalHtml || !htmlCdnUrl) return;
+		if (!isTrustedContentUrl(htmlCdnUrl)) {
+			setHtmlError(`Chart source not allowed: ${contentHostOf(htmlCdnUrl)}`);
+			return;
+		}
 
 		// Dispose any existing ECharts instance when switching to external
 		if (chartInstanceRef.current) {
@@ -45,6 +72,7 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 		setHtmlError(null);
 		setRenderIframe(false);
 		setDetectedPlotlySpec(null);
+		setSpecFailure(null);
 
 		fetch(htmlCdnUrl, { mode: 'cors' })
 			.then(async (res) => {
@@ -52,34 +80,36 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 				const contentType = (res.headers.get('content-type') || '').toLowerCase();
 				// If the response is JSON, render via Plotly path instead of injecting as HTML
 				if (contentType.includes('application/json') || contentType.includes('text/json')) {
-					try {
-						const spec = await res.json();
-						if (aborted) return;
-						setDetectedPlotlySpec(spec);
-						setHtmlContent('');
-						return;
-					} catch (e: any) {
-						setHtmlError('Failed to parse JSON chart spec');
-						return;
+					const text = await res.text();
+					if (aborted) return;
+					const figure = readPlotlyFigure(text);
+					if (figure.ok) {
+						setDetectedPlotlySpec(figure.value);
+					} else {
+						setSpecFailure({ error: figure.error, spec: text, source: 'html_cdn_url' });
 					}
+					setHtmlContent('');
+					return;
 				}
-				// Otherwise, treat as HTML/text
+				// Otherwise, treat as HTML/text for the sandboxed frame
 				const text = await res.text();
 				if (aborted) return;
 				// Heuristic fallback: sometimes servers mislabel JSON; detect by content
 				const trimmed = text.trim();
 				if ((trimmed.startsWith('{') && trimmed.endsWith('}')) || (trimmed.startsWith('[') && trimmed.endsWith(']'))) {
-					try {
-						const spec = JSON.parse(trimmed);
-						setDetectedPlotlySpec(spec);
+					const parsed = parseLenientJson(trimmed);
+					if (parsed.ok) {
+						const figure = validatePlotlyFigure(parsed.value);
+						if (figure.ok) {
+							setDetectedPlotlySpec(figure.value);
+						} else {
+							setSpecFailure({ error: figure.error, spec: trimmed, source: 'html_cdn_url' });
+						}
 						setHtmlContent('');
 						return;
-					} catch {}
+					}
 				}
-				const parser = new DOMParser();
-				const doc = parser.parseFromString(text, 'text/html');
-				const bodyInner = doc?.body ? doc.body.innerHTML : '';
-				setHtmlContent(bodyInner || text);
+				setHtmlContent(text);
 			})
 			.catch((err) => {
 				if (!aborted) {
@@ -97,105 +127,6 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 		};
 	}, [isExternalHtml, htmlCdnUrl]);
 
-	// Inject HTML into container and execute scripts (skip when using iframe fallback)
-	useEffect(() => {
-		if (!isExternalHtml || renderIframe || detectedPlotlySpec) return;
-		const container = externalContainerRef.current;
-		if (!container) return;
-
-		container.innerHTML = '';
-		if (!htmlContent) return;
-
-		container.innerHTML = htmlContent;
-
-		const toAbs = (value: string | null | undefined) => {
-			if (!value) return value as any;
-			try {
-				const abs = new URL(value, htmlCdnUrl);
-				return abs.href;
-			} catch {
-				return value;
-			}
-		};
-
-		container.querySelectorAll('link[href]').forEach((el) => {
-			const link = el as HTMLLinkElement;
-			const href = link.getAttribute('href');
-			const abs = toAbs(href);
-			if (abs) link.setAttribute('href', abs);
-		});
-		container.querySelectorAll('img[src]').forEach((el) => {
-			const img = el as HTMLImageElement;
-			const src = img.getAttribute('src');
-			const abs = toAbs(src);
-			if (abs) img.setAttribute('src', abs);
-		});
-
-		const originalScripts = Array.from(container.querySelectorAll('script')) as HTMLScriptElement[];
-		originalScripts.forEach(s => s.parentElement?.removeChild(s));
-
-		let cancelled = false;
-
-		const ensurePlotly = async () => {
-			const needsPlotly = /plotly|Plotly\.newPlot|plotly-.*\.js/i.test(htmlContent);
-			const hasPlotly = (window as any).Plotly != null;
-			if (!needsPlotly || hasPlotly) return;
-
-			await new Promise<void>((resolve, reject) => {
-				const existing = document.querySelector(`script[src="${PLOTLY_CDN_URL}"]`) as HTMLScriptElement | null;
-				if (existing && (window as any).Plotly) {
-					resolve();
-					return;
-				}
-				const script = document.createElement('script');
-				script.src = PLOTLY_CDN_URL;
-				(script as any).async = false;
-				script.onload = () => resolve();
-				script.onerror = () => reject(new Error('Failed to load Plotly CDN'));
-				document.head.appendChild(script);
-			});
-		};
-
-		const run = async () => {
-			try {
-				await ensurePlotly();
-				for (const oldScript of originalScripts) {
-					if (cancelled) return;
-					const newScript = document.createElement('script');
-					for (const { name, value } of Array.from(oldScript.attributes)) {
-						if (name.toLowerCase() === 'src') {
-							const abs = toAbs(value);
-							if (abs) newScript.setAttribute('src', abs);
-						} else {
-							newScript.setAttribute(name, value);
-						}
-					}
-					(newScript as any).async = false;
-					(newScript as any).defer = false;
-					if (oldScript.src) {
-						await new Promise<void>((resolve, reject) => {
-							newScript.onload = () => resolve();
-							newScript.onerror = () => reject(new Error(`Failed to load script: ${newScript.src}`));
-							container.appendChild(newScript);
-						});
-					} else {
-						newScript.textContent = oldScript.textContent;
-						container.appendChild(newScript);
-					}
-				}
-			} catch (e) {
-				console.error(e);
-				setHtmlError('Failed to execute chart scripts');
-			}
-		};
-
-		run();
-
-		return () => {
-			cancelled = true;
-		};
-	}, [isExternalHtml, renderIframe, htmlContent, htmlCdnUrl, detectedPlotlySpec]);
-
 	// ECharts path (legacy)
 	useEffect(() => {
 		if (isExternalHtml || isJsonPlotly) return; // handled elsewhere
@@ -204,8 +135,20 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 			if (chartInstanceRef.current) {
 				chartInstanceRef.current.dispose();
 			}
-			chartInstanceRef.current = echarts.init(chartRef.current, 'shine', { renderer: 'svg' });
-			chartInstanceRef.current.setOption(chartOptions);
+			try {
+				chartInstanceRef.current = echarts.init(chartRef.current, 'shine', { renderer: 'svg' });
+				chartInstanceRef.current.setOption(sanitizeEChartsOptions(chartOptions) as echarts.EChartsOption);
+			} catch (e) {
+				// Options that pass validation can still be rejected by ECharts itself
+				chartInstanceRef.current?.dispose();
+				chartInstanceRef.current = null;
+				setSpecFailure({
+					error: `ECharts could not render these options: ${e instanceof Error ? e.message : String(e)}`,
+					spec: rawSpec ?? JSON.stringify(chartOptions, null, 2),
+					source: 'inline',
+				});
+				return;
+			}
 
 			let resizeTimeout: NodeJS.Timeout;
 			const handleResize = () => {
@@ -221,7 +164,7 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 				chartInstanceRef.current?.dispose();
 			};
 		}
-	}, [chartOptions, isExternalHtml, isJsonPlotly]);
+	}, [chartOptions, rawSpec, isExternalHtml, isJsonPlotly]);
 
 	// Plotly JSON path
 	useEffect(() => {
@@ -251,17 +194,32 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 
 		const loadAndRender = async () => {
 			try {
+				if (!isTrustedContentUrl(jsonCdnUrl)) {
+					throw new Error(`Chart source not allowed: ${contentHostOf(jsonCdnUrl)}`);
+				}
 				await ensurePlotly();
 				const res = await fetch(jsonCdnUrl, { mode: 'cors' });
 				if (!res.ok) throw new Error(`Failed to fetch JSON (${res.status})`);
-				const spec = await res.json();
+				const text = await res.text();
 				if (cancelled) return;
+				const figure = readPlotlyFigure(text);
+				if (!figure.ok) {
+					setSpecFailure({ error: figure.error, spec: text, source: 'json_cdn_url' });
+					return;
+				}
 				const plotlyContainer = plotlyRef.current;
 				if (!plotlyContainer) return;
-				const data = spec.data || spec.traces || spec; // heuristic
-				const layout = spec.layout || spec.figure?.layout || {};
-				const config = spec.config || { responsive: true };
-				await (window as any).Plotly.newPlot(plotlyContainer, data, layout, config);
+				const { data, layout, config = { responsive: true } } = figure.value;
+				try {
+					await (window as any).Plotly.newPlot(plotlyContainer, data, layout, config);
+				} catch (e) {
+					setSpecFailure({
+						error: `Plotly could not render this figure: ${e instanceof Error ? e.message : String(e)}`,
+						spec: text,
+						source: 'json_cdn_url',
+					});
+					return;
+				}
 				// Handle resize
 				const handleResize = () => {
 					(window as any).Plotly.Plots.resize(plotlyContainer);
@@ -322,10 +280,7 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 				await ensurePlotly();
 				const plotlyContainer = plotlyRef.current;
 				if (!plotlyContainer) return;
-				const spec = detectedPlotlySpec;
-				const data = spec.data || spec.traces || spec; // heuristic
-				const layout = spec.layout || spec.figure?.layout || {};
-				const config = spec.config || { responsive: true };
+				const { data, layout, config = { responsive: true } } = detectedPlotlySpec;
 				await (window as any).Plotly.newPlot(plotlyContainer, data, layout, config);
 				const handleResize = () => {
 					(window as any).Plotly.Plots.resize(plotlyContainer);
@@ -337,8 +292,12 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 						try { (window as any).Plotly.purge(plotlyContainer); } catch {}
 					}
 				};
-			} catch (e: any) {
-				setHtmlError(e.message || 'Failed to render chart');
+			} catch (e) {
+				setSpecFailure({
+					error: `Plotly could not render this figure: ${e instanceof Error ? e.message : String(e)}`,
+					spec: JSON.stringify(detectedPlotlySpec, null, 2),
+					source: 'html_cdn_url',
+				});
 			}
 		};
 
@@ -363,6 +322,22 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 		}
 	};
 
+	// External charts live in a sandboxed frame, so the image is requested over postMessage
+	const handleFrameDownload = async () => {
+		try {
+			const url = await frameRef.current?.exportImage();
+			if (!url) return;
+			const link = document.createElement('a');
+			link.href = url;
+			link.download = `${title.replace(/\s+/g, '_').toLowerCase()}_chart.${url.startsWith('data:image/svg') ? 'svg' : 'png'}`;
+			document.body.appendChild(link);
+			link.click();
+			document.body.removeChild(link);
+		} catch (e) {
+			console.warn('Chart export failed:', e);
+		}
+	};
+
 	const handleMaximize = () => {
 		if (chartRef.current) {
 			if (chartRef.current.requestFullscreen) {
@@ -372,6 +347,17 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 		}
 	};
 
+	if (specError || specFailure) {
+		return (
+			<ChartErrorCard
+				title={title}
+				error={specError || specFailure?.error || ''}
+				spec={specFailure?.spec ?? rawSpec ?? ''}
+				source={specFailure?.source ?? 'inline'}
+			/>
+		);
+	}
+
 	return (
 		<div className="border border-gray-200 rounded-lg overflow-hidden bg-white">
 			<div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200">
@@ -380,7 +366,11 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 					<span className="text-sm font-medium text-gray-800">{title}</span>
 				</div>
 				<div className="flex items-center space-x-2">
-					{/* For external HTML, we render inline and do not expose download/open controls */}
+					{isExternalHtml && htmlContent && !renderIframe && !detectedPlotlySpec && (
+						<button onClick={handleFrameDownload} className="p-1.5 rounded-md hover:bg-gray-200 transition-colors" title="Download chart">
+							<Download size={14} className="text-gray-600" />
+						</button>
+					)}
 					{!isExternalHtml && !isJsonPlotly && (
 						<>
 							<button onClick={handleDownload} className="p-1.5 rounded-md hover:bg-gray-200 transition-colors" title="Download chart">
@@ -394,12 +384,15 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 				</div>
 			</div>
 			<div className="p-4">
-				<div className="relative w-full h-[600px] overflow-hidden">
+				{/* Sandboxed chart frames size themselves to their content */}
+				<div className={`relative w-full overflow-hidden ${isExternalHtml && htmlContent && !renderIframe && !detectedPlotlySpec ? 'min-h-[200px]' : 'h-[600px]'}`}>
 					{isExternalHtml ? (
 						renderIframe ? (
 							<iframe
 								src={htmlCdnUrl}
 								title={title}
+								sandbox="allow-scripts"
+								referrerPolicy="no-referrer"
 								className="w-full h-full bg-white rounded-lg border border-gray-200"
 							/>
 						) : (
@@ -411,9 +404,9 @@ const ChartArtifact: React.FC<ChartArtifactProps> = ({ title, chartOptions, html
 										style={{ width: '100%', height: '100%', maxWidth: '100%', maxHeight: '100%' }}
 									/>
 								) : (
-									<div className="w-full h-full bg-white rounded-lg border border-gray-200 p-0 overflow-auto" ref={externalContainerRef}>
-										{/* HTML will be injected here */}
-									</div>
+									htmlContent && htmlCdnUrl && (
+										<SandboxedChartFrame ref={frameRef} html={htmlContent} baseUrl={htmlCdnUrl} title={title} />
+									)
 								)}
 							</>
 						)
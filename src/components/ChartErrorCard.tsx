@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Copy, Flag } from 'lucide-react';
+import { ApiService } from '../services/api';
+import type { BadChartReport } from '../services/api';
+
+interface ChartErrorCardProps {
+  title: string;
+  error: string;
+  // Raw spec text, or the URL it was loaded from
+  spec: string;
+  source: BadChartReport['source'];
+}
+
+// Shown in place of a chart whose spec could not be parsed, validated or rendered
+const ChartErrorCard: React.FC<ChartErrorCardProps> = ({ title, error, spec, source }) => {
+  const [reportState, setReportState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+  const [copied, setCopied] = useState(false);
+
+  const handleReport = async () => {
+    setReportState('sending');
+    try {
+      await ApiService.reportBadChart({ title, error, spec, source });
+      setReportState('sent');
+    } catch (e) {
+      console.warn('Failed to report chart:', e);
+      setReportState('failed');
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(spec);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="border border-amber-200 rounded-lg overflow-hidden bg-amber-50/60">
+      <div className="flex items-start justify-between px-4 py-3 border-b border-amber-200 space-x-3">
+        <div className="flex items-start space-x-2 min-w-0">
+          <AlertTriangle size={16} className="text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-800">{title || 'Chart'} could not be displayed</div>
+            <div className="text-xs text-amber-800 break-words">{error}</div>
+          </div>
+        </div>
+        <button
+          onClick={handleReport}
+          disabled={reportState === 'sending' || reportState === 'sent'}
+          className="flex items-center space-x-1 px-2 py-1 rounded-md text-xs text-amber-800 hover:bg-amber-100 transition-colors disabled:opacity-60 flex-shrink-0"
+        >
+          {reportState === 'sent' ? <Check size={12} /> : <Flag size={12} />}
+          <span>
+            {reportState === 'sent'
+              ? 'Reported'
+              : reportState === 'sending'
+                ? 'Reporting…'
+                : reportState === 'failed'
+                  ? 'Report failed, retry'
+                  : 'Report bad chart'}
+          </span>
+        </button>
+      </div>
+      <details className="px-4 py-3">
+        <summary className="text-xs text-gray-600 cursor-pointer hover:text-gray-800">View raw spec</summary>
+        <div className="relative mt-2">
+          <button
+            onClick={handleCopy}
+            className="absolute top-2 right-2 p-1 rounded-md bg-white/80 hover:bg-white transition-colors"
+            title="Copy spec"
+          >
+            {copied ? <Check size={12} className="text-green-600" /> : <Copy size={12} className="text-gray-600" />}
+          </button>
+          <pre className="text-xs text-gray-700 bg-white border border-amber-100 p-3 rounded overflow-auto max-h-80 whitespace-pre-wrap break-all">
+            {spec}
+          </pre>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default ChartErrorCard;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+
+interface ChartSkeletonProps {
+  title?: string;
+}
+
+// Shown in place of a chart artifact while its definition is still streaming
+const ChartSkeleton: React.FC<ChartSkeletonProps> = ({ title }) => {
+  const bars = [45, 70, 55, 85, 60, 75, 40];
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden bg-white">
+      <div className="flex items-center space-x-2 px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <BarChart3 size={16} className="text-gray-500" />
+        {title ? (
+          <span className="text-sm font-medium text-gray-800">{title}</span>
+        ) : (
+          <div className="h-4 w-40 bg-gray-200 rounded animate-pulse" />
+        )}
+      </div>
+      <div className="p-4">
+        <div className="flex items-end justify-between h-48 space-x-3 animate-pulse">
+          {bars.map((height, index) => (
+            <div key={index} className="flex-1 bg-gray-200 rounded-t" style={{ height: `${height}%` }} />
+          ))}
+        </div>
+        <div className="mt-3 text-center text-sm text-gray-500">Loading chart…</div>
+      </div>
+    </div>
+  );
+};
+
+export default ChartSkeleton;
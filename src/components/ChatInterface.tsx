@@ -1,39 +1,180 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Paperclip, Mic, Square } from 'lucide-react';
-import type { Conversation } from '../types';
+import { Send, Paperclip, Mic, Square, WifiOff, Upload } from 'lucide-react';
+import type { Attachment, Conversation, DataSourceSelection } from '../types';
+import { ApiService } from '../services/api';
+import { describeError } from '../services/errors';
+import { ACCEPTED_UPLOAD_EXTENSIONS, MAX_UPLOAD_BYTES, previewFile, uploadFormatOf } from '../services/filePreview';
+import { formatBytes } from '../utils';
 import MessageBubble from './MessageBubble';
+import ErrorBanner from './ErrorBanner';
+import DataSourcePicker from './DataSourcePicker';
+import UploadTray from './UploadTray';
+import type { PendingUpload } from './UploadTray';
+import VoiceRecorder from './VoiceRecorder';
+import type { VoiceRecorderHandle } from './VoiceRecorder';
 
 interface ChatInterfaceProps {
   conversation: Conversation | null;
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: Attachment[]) => void;
   isStreaming: boolean;
   onStopStream?: () => void;
+  onRetryMessage?: (messageId: string) => void;
+  // Set when the conversation's history failed to load
+  loadError?: string;
+  onRetryLoad?: () => void;
+  // Messages sent while offline are queued in the outbox and delivered on reconnect
+  isOffline?: boolean;
+  onEditQueued?: (messageId: string, content: string) => void;
+  onCancelQueued?: (messageId: string) => void;
+  onRetryQueued?: (messageId: string) => void;
+  // Start a conversation from the welcome screen with the data sources picked there
+  onNewConversation?: (selection: DataSourceSelection) => void;
+  onUpdateDataSources?: (selection: DataSourceSelection) => void;
+  sourcesError?: { message: string; retry: () => void };
+  onDismissSourcesError?: () => void;
+  // Message opened from search: scrolled to and highlighted instead of following the latest message
+  focusedMessageId?: string;
 }
 
+const EMPTY_SELECTION: DataSourceSelection = { selectedAssets: [], selectedDataSources: [] };
+
+const UPLOAD_ACCEPT = Object.keys(ACCEPTED_UPLOAD_EXTENSIONS).map(extension => `.${extension}`).join(',');
+let uploadCounter = 0;
+
+// Grow the textarea with its content, up to a limit
+const fitTextarea = (textarea: HTMLTextAreaElement) => {
+  textarea.style.height = 'auto';
+  textarea.style.height = Math.min(textarea.scrollHeight, 150) + 'px';
+};
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   conversation,
   onSendMessage,
   isStreaming,
-  onStopStream
+  onStopStream,
+  onRetryMessage,
+  loadError,
+  onRetryLoad,
+  isOffline,
+  onEditQueued,
+  onCancelQueued,
+  onRetryQueued,
+  onNewConversation,
+  onUpdateDataSources,
+  sourcesError,
+  onDismissSourcesError,
+  focusedMessageId
 }) => {
   const [inputValue, setInputValue] = useState('');
+  const [newSelection, setNewSelection] = useState<DataSourceSelection>(EMPTY_SELECTION);
   const [isRecording, setIsRecording] = useState(false);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const voiceRecorderRef = useRef<VoiceRecorderHandle>(null);
+  // What was typed before dictation started; the transcript is appended to it
+  const dictationBaseRef = useRef('');
+  const uploadControllersRef = useRef(new Map<string, AbortController>());
+
+  // Files belong to the conversation they were picked in: abandon them when the chat view goes away
+  // or switches to another conversation
+  useEffect(() => {
+    const controllers = uploadControllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+      setUploads([]);
+    };
+  }, [conversation?.id]);
+
+  const isUploading = uploads.some(upload => upload.status === 'uploading');
+  // A failed file would otherwise be left out of the message without a word
+  const hasFailedUpload = uploads.some(upload => upload.status === 'error');
+  const canSend = !!inputValue.trim() && !isStreaming && !isUploading && !hasFailedUpload && !isRecording;
+
+  const updateUpload = (key: string, patch: Partial<PendingUpload>) => {
+    setUploads(prev => prev.map(upload => (upload.key === key ? { ...upload, ...patch } : upload)));
+  };
+
+  // Each file uploads and previews independently; unsupported or oversized files show an error chip
+  const addFiles = (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      const key = `upload-${uploadCounter++}`;
+      const format = uploadFormatOf(file);
+      const rejection = !format
+        ? 'Unsupported file type. Use CSV, XLSX, Parquet or JSON.'
+        : file.size > MAX_UPLOAD_BYTES
+          ? `File is larger than ${formatBytes(MAX_UPLOAD_BYTES)}`
+          : undefined;
+      setUploads(prev => [
+        ...prev,
+        { key, file, format, status: rejection ? 'error' : 'uploading', progress: 0, error: rejection },
+      ]);
+      if (!format || rejection) continue;
+
+      const controller = new AbortController();
+      uploadControllersRef.current.set(key, controller);
+      ApiService.uploadFile(file, format, progress => updateUpload(key, { progress }), controller.signal)
+        .then(
+          attachment => updateUpload(key, { status: 'done', progress: 1, attachment }),
+          error => {
+            if (!controller.signal.aborted) updateUpload(key, { status: 'error', error: describeError(error) });
+          }
+        )
+        .finally(() => uploadControllersRef.current.delete(key));
+      previewFile(file, format).then(
+        preview => updateUpload(key, { preview }),
+        error => updateUpload(key, { previewError: error instanceof Error ? error.message : 'Could not read the file' })
+      );
+    }
+  };
+
+  const removeUpload = (key: string) => {
+    uploadControllersRef.current.get(key)?.abort();
+    setUploads(prev => prev.filter(upload => upload.key !== key));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(e.dataTransfer.files);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [conversation?.messages]);
+    if (!focusedMessageId) {
+      scrollToBottom();
+      return;
+    }
+    // The history may still be loading; this runs again once the messages arrive
+    const target = messagesRef.current?.querySelector(`[data-message-id="${CSS.escape(focusedMessageId)}"]`);
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [conversation?.messages, focusedMessageId]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim() && !isStreaming) {
-      onSendMessage(inputValue.trim());
+    if (canSend) {
+      const attachments = uploads.flatMap(upload => (upload.attachment ? [upload.attachment] : []));
+      onSendMessage(inputValue.trim(), attachments);
       setInputValue('');
+      setUploads([]);
       // Reset textarea height
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
@@ -50,11 +191,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const handleTextareaChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInputValue(e.target.value);
-    
-    // Auto-resize textarea
-    const textarea = e.target;
-    textarea.style.height = 'auto';
-    textarea.style.height = Math.min(textarea.scrollHeight, 150) + 'px';
+    fitTextarea(e.target);
   };
 
   const handleQuestionClick = (question: string) => {
@@ -63,9 +200,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  // Dictated text arrives without change events, so size the textarea to it here
+  useEffect(() => {
+    if (isRecording && textareaRef.current) fitTextarea(textareaRef.current);
+  }, [inputValue, isRecording]);
+
   const toggleRecording = () => {
-    setIsRecording(!isRecording);
-    // Implement voice recording logic here
+    if (isRecording) {
+      voiceRecorderRef.current?.stop();
+      return;
+    }
+    dictationBaseRef.current = inputValue.trimEnd();
+    setIsRecording(true);
+  };
+
+  const handleTranscript = (text: string) => {
+    const base = dictationBaseRef.current;
+    setInputValue(base && text ? `${base} ${text}` : base || text);
+  };
+
+  // The transcript stays in the textarea for editing; a cancelled dictation restores what was there
+  const handleDictationEnd = (cancelled: boolean) => {
+    if (cancelled) setInputValue(dictationBaseRef.current);
+    setIsRecording(false);
+    textareaRef.current?.focus();
   };
 
   if (!conversation) {
@@ -77,6 +235,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
           <h2 className="text-2xl font-bold text-gray-800 mb-2">Welcome to AI Chat</h2>
           <p className="text-gray-600 mb-6">Start a new conversation to begin chatting with AI</p>
+          {onNewConversation && (
+            <div className="flex flex-col items-center space-y-3 mb-8">
+              <DataSourcePicker value={newSelection} onChange={setNewSelection} />
+              <button
+                onClick={() => onNewConversation(newSelection)}
+                className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white text-sm font-medium shadow-md hover:from-blue-600 hover:to-blue-700 transition-colors"
+              >
+                Start conversation
+              </button>
+            </div>
+          )}
           <div className="space-y-2 text-sm text-gray-500">
             <p>💡 Ask questions about data analysis</p>
             <p>📊 Request charts and visualizations</p>
@@ -88,15 +257,41 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   }
 
   return (
-    <div className="flex-1 flex flex-col bg-gradient-to-br from-gray-50 to-gray-100">
+    <div
+      className="relative flex-1 flex flex-col bg-gradient-to-br from-gray-50 to-gray-100"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="absolute inset-3 z-30 flex items-center justify-center rounded-2xl border-2 border-dashed border-blue-400 bg-blue-50/90 pointer-events-none">
+          <div className="flex flex-col items-center space-y-2 text-blue-700">
+            <Upload size={28} />
+            <span className="text-sm font-medium">Drop CSV, XLSX, Parquet or JSON files to attach</span>
+          </div>
+        </div>
+      )}
+
       {/* Chat Header */}
-      <div className="px-6 py-4 bg-white/80 backdrop-blur-sm border-b border-gray-200">
+      <div className="relative z-10 px-6 py-4 bg-white/80 backdrop-blur-sm border-b border-gray-200">
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-lg font-semibold text-gray-800">{conversation.title}</h2>
             <p className="text-sm text-gray-500">
               {conversation.messages.length} message{conversation.messages.length !== 1 ? 's' : ''}
             </p>
+            {onUpdateDataSources && (
+              <div className="mt-2">
+                <DataSourcePicker
+                  value={{
+                    selectedAssets: conversation.selectedAssets ?? [],
+                    selectedDataSources: conversation.selectedDataSources ?? [],
+                  }}
+                  onChange={onUpdateDataSources}
+                  disabled={isStreaming}
+                />
+              </div>
+            )}
           </div>
           {isStreaming && (
             <button
@@ -112,12 +307,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto px-6 py-6">
-        <div className="max-w-4xl mx-auto">
+        <div ref={messagesRef} className="max-w-4xl mx-auto">
+          {sourcesError && (
+            <div className="mb-6">
+              <ErrorBanner message={sourcesError.message} onRetry={sourcesError.retry} onDismiss={onDismissSourcesError} />
+            </div>
+          )}
+          {loadError && (
+            <div className="mb-6">
+              <ErrorBanner message={`Could not load this conversation. ${loadError}`} onRetry={onRetryLoad} />
+            </div>
+          )}
           {conversation.messages.map((message) => (
             <MessageBubble
               key={message.id}
               message={message}
+              dataSources={conversation.selectedDataSources}
+              isFocused={message.id === focusedMessageId}
               onQuestionClick={handleQuestionClick}
+              onRetry={!isStreaming ? onRetryMessage : undefined}
+              onEditQueued={onEditQueued}
+              onCancelQueued={onCancelQueued}
+              onRetryQueued={onRetryQueued}
             />
           ))}
           <div ref={messagesEndRef} />
@@ -127,6 +338,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       {/* Input Area */}
       <div className="px-6 py-4 bg-white/90 backdrop-blur-sm border-t border-gray-200">
         <div className="max-w-4xl mx-auto">
+          {isOffline && (
+            <div className="flex items-center space-x-2 mb-3 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-700">
+              <WifiOff size={14} className="flex-shrink-0" />
+              <span>You're offline. Messages will be queued and sent when you reconnect.</span>
+            </div>
+          )}
+          {uploads.length > 0 && <UploadTray uploads={uploads} onRemove={removeUpload} />}
+          {hasFailedUpload && (
+            <div className="mb-3 text-xs text-red-600">Remove the files that failed to upload before sending.</div>
+          )}
+          {isRecording && <VoiceRecorder ref={voiceRecorderRef} onTranscript={handleTranscript} onClose={handleDictationEnd} />}
           <form onSubmit={handleSubmit} className="relative">
             <div className="flex items-end space-x-3">
               <div className="flex-1 relative">
@@ -135,8 +357,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   value={inputValue}
                   onChange={handleTextareaChange}
                   onKeyDown={handleKeyDown}
-                  placeholder={isStreaming ? "AI is responding..." : "Type your message..."}
+                  placeholder={isStreaming ? "AI is responding..." : isRecording ? "Listening..." : "Type your message..."}
                   disabled={isStreaming}
+                  // Typing would be overwritten by the next interim transcript
+                  readOnly={isRecording}
                   className="w-full px-4 py-3 pr-12 bg-white border border-gray-300 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm disabled:bg-gray-50 disabled:text-gray-500"
                   rows={1}
                   style={{ minHeight: '48px' }}
@@ -144,6 +368,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <button
                   type="button"
                   onClick={toggleRecording}
+                  title={isRecording ? 'Stop dictation' : 'Dictate'}
                   className={`absolute right-3 top-1/2 transform -translate-y-1/2 p-1.5 rounded-lg transition-colors ${
                     isRecording 
                       ? 'bg-red-500 text-white' 
@@ -154,18 +379,35 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 </button>
               </div>
               
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={UPLOAD_ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  // Allow picking the same file again after removing it
+                  e.target.value = '';
+                }}
+              />
               <button
                 type="button"
+                onClick={() => fileInputRef.current?.click()}
                 className="p-3 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+                title="Attach data files"
               >
                 <Paperclip size={20} />
               </button>
               
               <button
                 type="submit"
-                disabled={!inputValue.trim() || isStreaming}
+                disabled={!canSend}
+                title={
+                  isUploading ? 'Waiting for uploads to finish' : hasFailedUpload ? 'Remove failed uploads first' : undefined
+                }
                 className={`p-3 rounded-xl transition-all duration-200 ${
-                  inputValue.trim() && !isStreaming
+                  canSend
                     ? 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg hover:shadow-xl'
                     : 'bg-gray-200 text-gray-400 cursor-not-allowed'
                 }`}
@@ -0,0 +1,32 @@
+import React, { useContext } from 'react';
+import { CitationContext, describeSource } from '../artifacts/citations';
+
+interface CitationMarkerProps {
+  id: string;
+}
+
+// Inline footnote number; clicking it opens the message's sources panel on that source
+const CitationMarker: React.FC<CitationMarkerProps> = ({ id }) => {
+  const citations = useContext(CitationContext);
+  const source = citations?.sources.find(candidate => candidate.id === id);
+
+  if (!citations || !source) {
+    return <sup className="text-xs text-gray-400" title="Source not provided">[{id}]</sup>;
+  }
+
+  return (
+    <sup>
+      <button
+        onClick={() => citations.select(id)}
+        title={describeSource(source, id)}
+        className={`mx-0.5 px-1 rounded text-xs font-semibold transition-colors ${
+          citations.activeId === id ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+        }`}
+      >
+        {id}
+      </button>
+    </sup>
+  );
+};
+
+export default CitationMarker;
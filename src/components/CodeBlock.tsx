@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+
+interface CodeBlockProps {
+  // Raw source, used for copying
+  code: string;
+  language?: string;
+  children: React.ReactNode;
+}
+
+// Fenced code block from markdown; `children` is the highlighted <code> element
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language, children }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-3 border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-100 border-b border-gray-200">
+        <span className="text-xs font-mono text-gray-500">{language || 'text'}</span>
+        <button
+          onClick={handleCopy}
+          className="flex items-center space-x-1 px-1.5 py-0.5 rounded-md text-xs text-gray-600 hover:bg-gray-200 transition-colors"
+          title="Copy code"
+        >
+          {copied ? <Check size={12} className="text-green-600" /> : <Copy size={12} />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm leading-relaxed [&_code]:bg-transparent [&_code]:p-0 [&_code]:font-mono">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MessageSquare, Pin } from 'lucide-react';
+import type { Conversation } from '../types';
+import { conversationGroupLabel, formatTimestamp } from '../utils';
+import ConversationMenu from './ConversationMenu';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  // The element that scrolls the list; only rows near its visible area are mounted
+  scrollContainerRef: React.RefObject<HTMLDivElement | null>;
+  activeConversationId: string | null;
+  onConversationSelect: (id: string) => void;
+  onRenameConversation?: (id: string, title: string) => void;
+  onPinConversation?: (id: string, pinned: boolean) => void;
+  onArchiveConversation?: (id: string, archived: boolean) => void;
+  onDuplicateConversation?: (id: string) => void;
+  onExportConversation?: (id: string) => void;
+  onDeleteConversation?: (id: string) => void;
+}
+
+// Rows have fixed heights so positions can be computed without rendering them
+const HEADER_HEIGHT = 32;
+const CARD_HEIGHT = 98;
+const ROW_HEIGHT = CARD_HEIGHT + 8;
+// Rows mounted beyond each edge of the visible area, so fast scrolling does not show gaps
+const OVERSCAN_PX = 600;
+
+type ListEntry =
+  | { kind: 'header'; key: string; label: string; top: number }
+  | { kind: 'conversation'; key: string; conversation: Conversation; top: number };
+
+// Pinned conversations first, then the rest newest first under date headers
+const layoutEntries = (conversations: Conversation[]) => {
+  const now = new Date();
+  const sorted = [...conversations].sort(
+    (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp.getTime() - a.timestamp.getTime()
+  );
+  const entries: ListEntry[] = [];
+  let top = 0;
+  let group: string | null = null;
+  for (const conversation of sorted) {
+    const label = conversation.pinned ? 'Pinned' : conversationGroupLabel(conversation.timestamp, now);
+    if (label !== group) {
+      entries.push({ kind: 'header', key: `header:${label}`, label, top });
+      top += HEADER_HEIGHT;
+      group = label;
+    }
+    entries.push({ kind: 'conversation', key: conversation.id, conversation, top });
+    top += ROW_HEIGHT;
+  }
+  return { entries, height: top };
+};
+
+// Date-grouped conversation rows, virtualized so thousands of threads stay cheap to render
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  scrollContainerRef,
+  activeConversationId,
+  onConversationSelect,
+  onRenameConversation,
+  onPinConversation,
+  onArchiveConversation,
+  onDuplicateConversation,
+  onExportConversation,
+  onDeleteConversation
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  // Visible area of the scroll container, in list coordinates
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [renaming, setRenaming] = useState<{ id: string; draft: string } | null>(null);
+  // Set by Escape so the blur that ends every rename discards the edit
+  const cancelRenameRef = useRef(false);
+  const layout = useMemo(() => layoutEntries(conversations), [conversations]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+    const update = () => {
+      // Error banners and other content can sit above the list inside the same scroll container
+      const offset = list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+      setViewport({ top: container.scrollTop - offset, height: container.clientHeight });
+    };
+    update();
+    container.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [scrollContainerRef]);
+
+  const visible = layout.entries.filter(
+    entry =>
+      entry.top + ROW_HEIGHT >= viewport.top - OVERSCAN_PX &&
+      entry.top <= viewport.top + viewport.height + OVERSCAN_PX
+  );
+
+  const finishRename = () => {
+    if (!renaming) return;
+    const title = renaming.draft.trim();
+    const conversation = conversations.find(c => c.id === renaming.id);
+    if (!cancelRenameRef.current && title && conversation && title !== conversation.title) {
+      onRenameConversation?.(renaming.id, title);
+    }
+    cancelRenameRef.current = false;
+    setRenaming(null);
+  };
+
+  return (
+    <div ref={listRef} className="relative" style={{ height: layout.height }}>
+      {visible.map(entry =>
+        entry.kind === 'header' ? (
+          <div
+            key={entry.key}
+            className="absolute inset-x-0 flex items-end px-1 pb-2 text-xs font-semibold uppercase tracking-wide text-white/60 drop-shadow-sm"
+            style={{ top: entry.top, height: HEADER_HEIGHT }}
+          >
+            {entry.label}
+          </div>
+        ) : (
+          <div key={entry.key} className="absolute inset-x-0" style={{ top: entry.top, height: CARD_HEIGHT }}>
+            <div
+              onClick={() => onConversationSelect(entry.conversation.id)}
+              className={`group relative h-full p-4 rounded-xl cursor-pointer transition-all duration-200 ${
+                activeConversationId === entry.conversation.id
+                  ? 'bg-white/25 border border-white/40 shadow-lg'
+                  : 'bg-black/20 hover:bg-white/15 border border-white/20 hover:border-white/30'
+              }`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <MessageSquare size={16} className="text-white/90 flex-shrink-0" />
+                    {renaming?.id === entry.conversation.id ? (
+                      <input
+                        autoFocus
+                        value={renaming.draft}
+                        onChange={e => setRenaming({ id: entry.conversation.id, draft: e.target.value })}
+                        onClick={e => e.stopPropagation()}
+                        onKeyDown={e => {
+                          if (e.key !== 'Enter' && e.key !== 'Escape') return;
+                          cancelRenameRef.current = e.key === 'Escape';
+                          e.currentTarget.blur();
+                        }}
+                        onBlur={finishRename}
+                        onFocus={e => e.target.select()}
+                        className="flex-1 min-w-0 px-1.5 py-0.5 -my-0.5 rounded bg-black/30 border border-white/40 text-white text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-blue-400"
+                        aria-label="Conversation title"
+                      />
+                    ) : (
+                      <h3 className="text-white font-semibold text-sm truncate drop-shadow-sm">
+                        {entry.conversation.title}
+                      </h3>
+                    )}
+                    {entry.conversation.pinned && <Pin size={12} className="text-white/70 flex-shrink-0" aria-label="Pinned" />}
+                  </div>
+                  <p className="text-white/80 text-xs truncate mb-2 drop-shadow-sm">
+                    {entry.conversation.lastMessage}
+                  </p>
+                  <span className="block text-white/60 text-xs drop-shadow-sm">
+                    {formatTimestamp(entry.conversation.timestamp)}
+                  </span>
+                </div>
+                <ConversationMenu
+                  conversation={entry.conversation}
+                  onRename={() => setRenaming({ id: entry.conversation.id, draft: entry.conversation.title })}
+                  onTogglePin={() => onPinConversation?.(entry.conversation.id, !entry.conversation.pinned)}
+                  onDuplicate={() => onDuplicateConversation?.(entry.conversation.id)}
+                  onExport={() => onExportConversation?.(entry.conversation.id)}
+                  onToggleArchive={() => onArchiveConversation?.(entry.conversation.id, !entry.conversation.archived)}
+                  onDelete={() => onDeleteConversation?.(entry.conversation.id)}
+                />
+              </div>
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ConversationList;
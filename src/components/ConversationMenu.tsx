@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Archive, ArchiveRestore, Copy, Download, MoreVertical, Pencil, Pin, PinOff, Trash2 } from 'lucide-react';
+import type { Conversation } from '../types';
+
+interface ConversationMenuProps {
+  conversation: Conversation;
+  onRename: () => void;
+  onTogglePin: () => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+}
+
+// Overflow menu on a sidebar conversation row
+const ConversationMenu: React.FC<ConversationMenuProps> = ({
+  conversation,
+  onRename,
+  onTogglePin,
+  onDuplicate,
+  onExport,
+  onToggleArchive,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside the menu or on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const items = [
+    { label: 'Rename', icon: Pencil, action: onRename },
+    conversation.pinned
+      ? { label: 'Unpin', icon: PinOff, action: onTogglePin }
+      : { label: 'Pin to top', icon: Pin, action: onTogglePin },
+    { label: 'Duplicate', icon: Copy, action: onDuplicate },
+    { label: 'Export as Markdown', icon: Download, action: onExport },
+    conversation.archived
+      ? { label: 'Unarchive', icon: ArchiveRestore, action: onToggleArchive }
+      : { label: 'Archive', icon: Archive, action: onToggleArchive },
+    { label: 'Delete', icon: Trash2, action: onDelete, danger: true },
+  ];
+
+  return (
+    // Clicks inside the menu must not also select the row
+    <div ref={containerRef} className="relative" onClick={e => e.stopPropagation()}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className={`p-1 rounded-md hover:bg-white/20 transition-all duration-200 ${
+          isOpen ? 'opacity-100 bg-white/20' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'
+        }`}
+        title="More actions"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <MoreVertical size={14} className="text-white/80" />
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-7 z-20 w-48 py-1 rounded-lg bg-white shadow-xl border border-gray-200 text-sm"
+        >
+          {items.map(({ label, icon: Icon, action, danger }) => (
+            <button
+              key={label}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                action();
+              }}
+              className={`w-full flex items-center space-x-2 px-3 py-2 text-left transition-colors ${
+                danger ? 'text-red-600 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <Icon size={14} className="flex-shrink-0" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationMenu;
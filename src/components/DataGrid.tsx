@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Copy, Download, Search, Table2 } from 'lucide-react';
+import type { TableCell, TableColumn, TableData } from '../artifacts/tableData';
+import { tableToCsv, tableToTsv } from '../artifacts/tableData';
+
+interface DataGridProps {
+  table: TableData;
+  title?: string;
+  // Short description shown above the grid, e.g. the line printed before a DataFrame
+  caption?: string;
+}
+
+const PAGE_SIZE = 25;
+
+const numberFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+// Identifiers and years read wrong with thousands separators
+const isRawNumberColumn = (column: TableColumn) => /(^|[\s_])(id|year|yr)s?$/i.test(column.name) || column.name === '#';
+
+const formatCell = (cell: TableCell, column: TableColumn) => {
+  if (cell === null) return '—';
+  if (typeof cell === 'number' && !isRawNumberColumn(column)) return numberFormat.format(cell);
+  return String(cell);
+};
+
+type SortDirection = 'asc' | 'desc';
+
+// Nulls always sort last in either direction; numbers numerically, everything else with natural string order
+const compareCells = (a: TableCell, b: TableCell, direction: SortDirection) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  const order =
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return direction === 'asc' ? order : -order;
+};
+
+const DataGrid: React.FC<DataGridProps> = ({ table, title, caption }) => {
+  const [sort, setSort] = useState<{ column: number; direction: SortDirection } | null>(null);
+  const [filter, setFilter] = useState('');
+  const [page, setPage] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  const visibleRows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const filtered = query
+      ? table.rows.filter(row => row.some(cell => cell !== null && String(cell).toLowerCase().includes(query)))
+      : table.rows;
+    if (!sort) return filtered;
+    return [...filtered].sort((a, b) => compareCells(a[sort.column], b[sort.column], sort.direction));
+  }, [table, filter, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(visibleRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visibleRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // Cycle ascending → descending → unsorted
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+    setPage(0);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(tableToTsv(table.columns, visibleRows));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([tableToCsv(table.columns, visibleRows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(title || 'table').replace(/[^\w-]+/g, '_')}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    // Revoking right away can cancel the download before the browser has read the blob
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+      link.remove();
+    }, 0);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden bg-white not-prose">
+      <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200 space-x-3">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Table2 size={16} className="text-gray-600 flex-shrink-0" />
+          <span className="text-sm font-medium text-gray-800 truncate">{title || 'Table'}</span>
+          <span className="text-xs text-gray-500 flex-shrink-0">
+            {table.rows.length.toLocaleString()} row{table.rows.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <div className="relative">
+            <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={filter}
+              onChange={(e) => {
+                setFilter(e.target.value);
+                setPage(0);
+              }}
+              placeholder="Filter rows..."
+              className="w-40 pl-7 pr-2 py-1 text-xs bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleCopy}
+            className="p-1.5 rounded-md hover:bg-gray-200 transition-colors"
+            title={copied ? 'Copied!' : 'Copy rows'}
+          >
+            <Copy size={14} className={copied ? 'text-green-600' : 'text-gray-600'} />
+          </button>
+          <button
+            onClick={handleExport}
+            className="p-1.5 rounded-md hover:bg-gray-200 transition-colors"
+            title="Export CSV"
+          >
+            <Download size={14} className="text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      {caption && <div className="px-4 pt-3 text-xs text-gray-600 whitespace-pre-wrap">{caption}</div>}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {table.columns.map((column, index) => (
+                <th
+                  key={index}
+                  onClick={() => toggleSort(index)}
+                  className={`px-3 py-2 font-semibold text-gray-700 border-b border-gray-200 cursor-pointer select-none hover:bg-gray-100 whitespace-nowrap ${
+                    column.numeric ? 'text-right' : 'text-left'
+                  }`}
+                >
+                  <span className="inline-flex items-center space-x-1">
+                    <span>{column.name}</span>
+                    {sort?.column === index && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="odd:bg-white even:bg-gray-50/60 hover:bg-blue-50/50">
+                {table.columns.map((column, index) => (
+                  <td
+                    key={index}
+                    className={`px-3 py-1.5 border-b border-gray-100 text-gray-800 whitespace-nowrap ${
+                      column.numeric ? 'text-right tabular-nums' : 'text-left'
+                    } ${row[index] === null ? 'text-gray-400' : ''}`}
+                  >
+                    {formatCell(row[index], column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={table.columns.length} className="px-3 py-6 text-center text-gray-500">
+                  No rows match "{filter}"
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-t border-gray-200 text-xs text-gray-600">
+          <span>
+            Rows {(currentPage * PAGE_SIZE + 1).toLocaleString()}–{Math.min((currentPage + 1) * PAGE_SIZE, visibleRows.length).toLocaleString()} of{' '}
+            {visibleRows.length.toLocaleString()}
+          </span>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Previous page"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span>
+              Page {currentPage + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              className="p-1 rounded-md hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Next page"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataGrid;
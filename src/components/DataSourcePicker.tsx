@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Check, ChevronDown, Database, FileText, Loader2, Search, X } from 'lucide-react';
+import type { DataCatalogItem, DataSourceSelection } from '../types';
+import { ApiService } from '../services/api';
+import { describeError } from '../services/errors';
+
+interface DataSourcePickerProps {
+  value: DataSourceSelection;
+  onChange: (selection: DataSourceSelection) => void;
+  disabled?: boolean;
+}
+
+const selectionKey = (kind: DataCatalogItem['kind']) => (kind === 'asset' ? 'selectedAssets' : 'selectedDataSources');
+
+const GROUPS: Array<{ kind: DataCatalogItem['kind']; label: string }> = [
+  { kind: 'dataSource', label: 'Datasets' },
+  { kind: 'asset', label: 'Assets' },
+];
+
+// Multi-select of the datasets and assets a conversation answers from, shown as removable chips
+const DataSourcePicker: React.FC<DataSourcePickerProps> = ({ value, onChange, disabled }) => {
+  const [catalog, setCatalog] = useState<DataCatalogItem[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    ApiService.fetchDataCatalog().then(
+      items => !cancelled && setCatalog(items),
+      error => !cancelled && setLoadError(describeError(error))
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  // Close on a click outside the picker or on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const isSelected = (item: DataCatalogItem) => value[selectionKey(item.kind)].includes(item.id);
+
+  const toggle = (item: DataCatalogItem) => {
+    const key = selectionKey(item.kind);
+    const ids = value[key];
+    onChange({ ...value, [key]: ids.includes(item.id) ? ids.filter(id => id !== item.id) : [...ids, item.id] });
+  };
+
+  // Selected ids missing from the catalog (e.g. since removed) still show, by id, so they can be cleared
+  const chips = useMemo(() => {
+    const known = new Map((catalog ?? []).map(item => [`${item.kind}:${item.id}`, item]));
+    const toChips = (ids: string[], kind: DataCatalogItem['kind']) =>
+      ids.map(id => known.get(`${kind}:${id}`) ?? { id, name: id, kind });
+    return [...toChips(value.selectedDataSources, 'dataSource'), ...toChips(value.selectedAssets, 'asset')];
+  }, [catalog, value]);
+
+  const matches = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    if (!catalog || !search) return catalog ?? [];
+    return catalog.filter(item =>
+      [item.name, item.id, item.description ?? ''].some(field => field.toLowerCase().includes(search))
+    );
+  }, [catalog, query]);
+
+  return (
+    <div ref={containerRef} className="relative flex items-center flex-wrap gap-1.5">
+      {chips.map(item => (
+        <span
+          key={`${item.kind}:${item.id}`}
+          className="inline-flex items-center space-x-1 pl-2 pr-1 py-0.5 rounded-full bg-blue-50 border border-blue-200 text-xs text-blue-800"
+        >
+          {item.kind === 'asset' ? <FileText size={11} /> : <Database size={11} />}
+          <span className="max-w-40 truncate">{item.name}</span>
+          <button
+            onClick={() => toggle(item)}
+            disabled={disabled}
+            className="p-0.5 rounded-full hover:bg-blue-100 transition-colors disabled:opacity-50"
+            title={`Remove ${item.name}`}
+          >
+            <X size={11} />
+          </button>
+        </span>
+      ))}
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full border border-dashed border-gray-300 text-xs text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+      >
+        <Database size={11} />
+        <span>{chips.length > 0 ? 'Edit sources' : 'Choose data sources'}</span>
+        <ChevronDown size={11} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 z-20 bg-white border border-gray-200 rounded-xl shadow-xl overflow-hidden text-left">
+          <div className="relative p-2 border-b border-gray-100">
+            <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search datasets and assets..."
+              autoFocus
+              className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+          <div className="max-h-72 overflow-y-auto py-1">
+            {loadError && (
+              <div className="flex items-center justify-between px-3 py-2 text-xs text-red-700">
+                <span className="flex items-center space-x-1">
+                  <AlertTriangle size={12} />
+                  <span>Could not load data sources. {loadError}</span>
+                </span>
+                <button onClick={() => setReloadKey(key => key + 1)} className="underline flex-shrink-0 ml-2">
+                  Retry
+                </button>
+              </div>
+            )}
+            {!catalog && !loadError && (
+              <div className="flex items-center space-x-2 px-3 py-2 text-xs text-gray-500">
+                <Loader2 size={12} className="animate-spin" />
+                <span>Loading data sources...</span>
+              </div>
+            )}
+            {catalog && matches.length === 0 && (
+              <div className="px-3 py-2 text-xs text-gray-500">
+                {query ? `Nothing matches "${query}"` : 'No data sources available'}
+              </div>
+            )}
+            {GROUPS.map(({ kind, label }) => {
+              const items = matches.filter(item => item.kind === kind);
+              if (items.length === 0) return null;
+              return (
+                <div key={kind}>
+                  <div className="px-3 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">{label}</div>
+                  {items.map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => toggle(item)}
+                      className="w-full flex items-start space-x-2 px-3 py-1.5 text-left hover:bg-gray-50 transition-colors"
+                    >
+                      <span
+                        className={`mt-0.5 w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center ${
+                          isSelected(item) ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300'
+                        }`}
+                      >
+                        {isSelected(item) && <Check size={11} />}
+                      </span>
+                      <span className="min-w-0">
+                        <span className="block text-sm text-gray-800 truncate">{item.name}</span>
+                        {item.description && <span className="block text-xs text-gray-500 truncate">{item.description}</span>}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataSourcePicker;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  // The sidebar sits on a dark glass background; the chat area is light
+  tone?: 'light' | 'dark';
+}
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry, onDismiss, tone = 'light' }) => {
+  const isDark = tone === 'dark';
+
+  return (
+    <div
+      role="alert"
+      className={`flex items-start justify-between p-3 rounded-lg border text-sm ${
+        isDark ? 'bg-red-500/20 border-red-300/40 text-white' : 'bg-red-50 border-red-200 text-red-700'
+      }`}
+    >
+      <div className="flex items-start space-x-2 min-w-0">
+        <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+        <span className="break-words">{message}</span>
+      </div>
+      <div className="flex items-center space-x-1 ml-3 flex-shrink-0">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className={`flex items-center space-x-1 px-2 py-1 rounded-md transition-colors ${
+              isDark ? 'hover:bg-white/20' : 'hover:bg-red-100'
+            }`}
+          >
+            <RotateCcw size={14} />
+            <span>Retry</span>
+          </button>
+        )}
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className={`p-1 rounded-md transition-colors ${isDark ? 'hover:bg-white/20' : 'hover:bg-red-100'}`}
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
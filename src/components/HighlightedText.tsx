@@ -0,0 +1,24 @@
+import React from 'react';
+import { highlightSegments } from '../services/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+// Text with every occurrence of the search terms marked
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => (
+  <>
+    {highlightSegments(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-300/80 text-gray-900 rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedText;
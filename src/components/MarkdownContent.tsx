@@ -0,0 +1,84 @@
+import React from 'react';
+import { ImageOff } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import type { Components, UrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { CITATION_HREF_PREFIX, linkCitations } from '../artifacts/citations';
+import { sanitizeImageUrl, sanitizeLinkUrl } from '../sanitize';
+import { hastText, normalizeMathDelimiters } from '../utils';
+import CitationMarker from './CitationMarker';
+import CodeBlock from './CodeBlock';
+import MarkdownTable from './MarkdownTable';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+const components: Components = {
+  h1: ({children}) => <h1 className="text-xl font-bold mb-3 text-gray-900">{children}</h1>,
+  h2: ({children}) => <h2 className="text-lg font-semibold mb-2 text-gray-900">{children}</h2>,
+  h3: ({children}) => <h3 className="text-base font-medium mb-2 text-gray-900">{children}</h3>,
+  p: ({children}) => <p className="mb-2 last:mb-0 leading-relaxed">{children}</p>,
+  ul: ({children}) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({children}) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+  li: ({children}) => <li className="leading-relaxed">{children}</li>,
+  strong: ({children}) => <strong className="font-semibold text-gray-900">{children}</strong>,
+  // Unsafe hrefs were already removed by `urlTransform`; render what is left as plain text
+  a: ({children, href}) =>
+    href?.startsWith(CITATION_HREF_PREFIX) ? (
+      <CitationMarker id={decodeURIComponent(href.slice(CITATION_HREF_PREFIX.length))} />
+    ) : href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-600 hover:underline">{children}</a>
+    ) : (
+      <span>{children}</span>
+    ),
+  img: ({src, alt}) =>
+    src ? (
+      <img src={src} alt={alt ?? ''} referrerPolicy="no-referrer" loading="lazy" className="max-w-full rounded-lg my-2" />
+    ) : (
+      <span className="inline-flex items-center space-x-1 px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-500" title="Image from an untrusted source was blocked">
+        <ImageOff size={12} />
+        <span>{alt || 'Image blocked'}</span>
+      </span>
+    ),
+  blockquote: ({children}) => <blockquote className="border-l-4 border-gray-200 pl-3 my-2 text-gray-600">{children}</blockquote>,
+  // Block code gets its own wrapper in `pre`, which resets these inline styles
+  code: ({children, className}) => (
+    <code className={`bg-gray-100 px-1 py-0.5 rounded text-sm font-mono ${className ?? ''}`}>{children}</code>
+  ),
+  pre: ({children, node}) => {
+    const code = node?.children.find(child => child.type === 'element' && child.tagName === 'code');
+    const classNames = code?.type === 'element' ? code.properties.className : undefined;
+    const language = Array.isArray(classNames)
+      ? classNames.map(String).find(name => name.startsWith('language-'))?.slice('language-'.length)
+      : undefined;
+    return <CodeBlock code={node ? hastText(node).replace(/\n$/, '') : ''} language={language}>{children}</CodeBlock>;
+  },
+  table: MarkdownTable,
+};
+
+// Model output is untrusted: links must be http(s)/mailto and images must come from trusted hosts
+const urlTransform: UrlTransform = (url, key) => (key === 'src' ? sanitizeImageUrl(url) : sanitizeLinkUrl(url));
+
+// The one markdown renderer for message text: GFM, math, highlighted code, data-grid tables
+// and citation footnotes
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => (
+  <div className="text-sm text-gray-800 max-w-none">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }]]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+      components={components}
+      urlTransform={urlTransform}
+    >
+      {linkCitations(normalizeMathDelimiters(content))}
+    </ReactMarkdown>
+  </div>
+);
+
+// Completed text segments keep their props while later tokens stream in
+export default React.memo(MarkdownContent);
@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import type { ExtraProps } from 'react-markdown';
+import { buildTable } from '../artifacts/tableData';
+import { hastText } from '../utils';
+import type { HastNode } from '../utils';
+import DataGrid from './DataGrid';
+
+const rowsOf = (node: HastNode): HastNode[] =>
+  node.tagName === 'tr' ? [node] : (node.children ?? []).flatMap(rowsOf);
+
+// GFM tables in answers render as the interactive data grid instead of a static <table>
+const MarkdownTable: React.FC<React.ComponentProps<'table'> & ExtraProps> = ({ node, children }) => {
+  const table = useMemo(() => {
+    if (!node) return null;
+    const [header, ...body] = rowsOf(node).map(row =>
+      (row.children ?? []).filter(cell => cell.tagName === 'th' || cell.tagName === 'td').map(hastText)
+    );
+    return header ? buildTable(header, body) : null;
+  }, [node]);
+
+  if (!table) {
+    return <table>{children}</table>;
+  }
+  return (
+    <div className="my-3">
+      <DataGrid table={table} />
+    </div>
+  );
+};
+
+export default MarkdownTable;
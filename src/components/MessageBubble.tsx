@@ -1,95 +1,81 @@
-import React, { useState, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { User, Bot, Copy, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { User, Bot, Copy, ThumbsUp, ThumbsDown, Square, AlertTriangle, RotateCcw, Clock, Loader2, Pencil, X } from 'lucide-react';
 import type { Message } from '../types';
-import { parseAIContent } from '../utils';
-import PythonArtifact from './PythonArtifact';
-import ChartArtifact from './ChartArtifact';
-import FollowUpQuestions from './FollowUpQuestions';
+import { StreamingContentParser } from '../utils';
+import { CitationContext, collectSources, isSourcePart } from '../artifacts/citations';
+import ArtifactView from './ArtifactView';
+import AttachmentChip from './AttachmentChip';
+import MarkdownContent from './MarkdownContent';
+import SourcesPanel from './SourcesPanel';
 
 interface MessageBubbleProps {
   message: Message;
+  // Data sources selected for the conversation, marked in the sources panel
+  dataSources?: string[];
+  // Opened from a search result
+  isFocused?: boolean;
   onQuestionClick?: (question: string) => void;
+  onRetry?: (messageId: string) => void;
+  // Outbox actions for user messages that have not been delivered yet
+  onEditQueued?: (messageId: string, content: string) => void;
+  onCancelQueued?: (messageId: string) => void;
+  onRetryQueued?: (messageId: string) => void;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onQuestionClick }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  dataSources,
+  isFocused = false,
+  onQuestionClick,
+  onRetry,
+  onEditQueued,
+  onCancelQueued,
+  onRetryQueued
+}) => {
   const isUser = message.type === 'user';
-  const parsedContent = !isUser ? parseAIContent(message.content) : [];
-  const [currentStatusIndex, setCurrentStatusIndex] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  // One parser per bubble, so each streamed token only parses the newly appended text
+  const [parser] = useState(() => new StreamingContentParser());
+  const isStreaming = message.status === 'streaming';
+  const parsedContent = useMemo(
+    () => (!isUser ? parser.update(message.content, !isStreaming) : []),
+    [parser, isUser, message.content, isStreaming]
+  );
+  // <source> artifacts are listed together under the message, not where they appear in the text
+  const sources = useMemo(() => collectSources(parsedContent), [parsedContent]);
+  const bodyContent = useMemo(() => parsedContent.filter(part => !isSourcePart(part)), [parsedContent]);
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const citations = useMemo(
+    () => ({ sources, activeId: activeSourceId, select: setActiveSourceId }),
+    [sources, activeSourceId]
+  );
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.content);
   };
 
-  // Get all status messages in order
-  const getAllStatusMessages = (content: string) => {
-    const allStatuses = [
-      { text: 'Initializing request...', condition: 'Initializing request' },
-      { text: 'Processing context and history...', condition: 'Processing context and history' },
-      { text: 'Analyzing the data...', condition: 'Analyzing the data' },
-      { text: 'Performing data analysis...', condition: 'Performing data analysis' },
-      { text: 'Generating visualization...', condition: 'Generating visualization' },
-      { text: 'Generating follow-up questions...', condition: 'Generating follow-up questions' },
-      { text: 'Almost complete the request...', condition: 'Almost complete the request' }
-    ];
-    
-    return allStatuses.filter(status => content.includes(status.condition)).map(status => status.text);
-  };
+  const isStopped = message.status === 'stopped';
+  const isFailed = message.status === 'error';
+  // Progress steps arrive as their own stream events, so the latest one is the current status
+  const steps = message.parts?.steps ?? [];
+  const currentStatus = steps[steps.length - 1];
+  const hasContent = parsedContent.length > 0 || message.content.trim() !== '';
+  // Only queued or failed messages can still be changed; a sending one is already on the wire
+  const isEditable = message.delivery === 'queued' || message.delivery === 'failed';
 
-  const statusMessages = !isUser ? getAllStatusMessages(message.content) : [];
-  const isStreaming = message.status === 'streaming';
-  
-  // Check if content is only status messages (simple approach)
-  const isOnlyStatusContent = (content: string) => {
-    const statusKeywords = [
-      'Initializing request',
-      'Processing context and history',
-      'Analyzing the data',
-      'Performing data analysis',
-      'Generating visualization',
-      'Generating follow-up questions',
-      'Almost complete the request',
-      'step_executing'
-    ];
-    
-    // Remove all status keywords and common symbols
-    let cleanContent = content;
-    statusKeywords.forEach(keyword => {
-      cleanContent = cleanContent.replace(new RegExp(keyword + '[.]*', 'g'), '');
-    });
-    
-    // Remove common symbols that come with status messages
-    cleanContent = cleanContent.replace(/[.\s#]+/g, '').trim();
-    
-    // If nothing meaningful remains, it's status-only content
-    return cleanContent === '';
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
   };
-  
-  const hasContent = parsedContent.length > 0 || (
-    message.content && 
-    !isOnlyStatusContent(message.content) &&
-    message.content.trim() !== ''
-  );
 
-  // Cycle through status messages with artificial delay
-  useEffect(() => {
-    if (isStreaming && statusMessages.length > 1) {
-      const interval = setInterval(() => {
-        setCurrentStatusIndex(prev => (prev + 1) % statusMessages.length);
-      }, 2000); // Change status every 2 seconds
-      
-      return () => clearInterval(interval);
+  const saveEdit = () => {
+    if (draft.trim()) {
+      onEditQueued?.(message.id, draft.trim());
     }
-  }, [isStreaming, statusMessages.length]);
-
-  // Reset status index when message changes
-  useEffect(() => {
-    setCurrentStatusIndex(0);
-  }, [message.id]);
-
-  const currentStatus = statusMessages[currentStatusIndex] || statusMessages[0];
+    setIsEditing(false);
+  };
 
   // Typing animation component
   const TypingAnimation = ({ message }: { message: string }) => (
@@ -132,7 +118,10 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onQuestionClick
   );
 
   return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-6`}>
+    <div
+      data-message-id={message.id}
+      className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-6 ${isFocused ? 'search-focus' : ''}`}
+    >
       <div className={`flex max-w-4xl ${isUser ? 'flex-row-reverse' : 'flex-row'} items-start space-x-3`}>
         {/* Avatar */}
         <div className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center ${
@@ -147,11 +136,101 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onQuestionClick
         <div className={`flex-1 ${isUser ? 'mr-3' : 'ml-3'}`}>
           {isUser ? (
             // User message
-            <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white p-4 rounded-2xl rounded-tr-md shadow-xl border border-blue-500/30">
-              <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">{message.content}</p>
-              <div className="mt-2 text-xs text-blue-100 opacity-80">
-                {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            <div className={`bg-gradient-to-r from-blue-600 to-blue-700 text-white p-4 rounded-2xl rounded-tr-md shadow-xl border border-blue-500/30 ${
+              message.delivery ? 'opacity-80' : ''
+            }`}>
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                  {message.attachments.map(attachment => (
+                    <AttachmentChip key={attachment.id} attachment={attachment} />
+                  ))}
+                </div>
+              )}
+              {isEditing && isEditable ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={3}
+                    autoFocus
+                    className="w-full min-w-64 p-2 rounded-lg bg-white/95 text-gray-800 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-300"
+                  />
+                  <div className="flex justify-end space-x-2 text-xs">
+                    <button
+                      onClick={() => setIsEditing(false)}
+                      className="px-2 py-1 rounded-md hover:bg-white/20 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveEdit}
+                      disabled={!draft.trim()}
+                      className="px-2 py-1 rounded-md bg-white text-blue-700 hover:bg-blue-50 transition-colors disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">{message.content}</p>
+              )}
+              <div className="flex items-center justify-between mt-2 space-x-3 text-xs text-blue-100">
+                <span className="opacity-80">
+                  {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                {message.delivery === 'queued' && (
+                  <span className="flex items-center space-x-1">
+                    <Clock size={12} />
+                    <span>Queued</span>
+                  </span>
+                )}
+                {message.delivery === 'sending' && (
+                  <span className="flex items-center space-x-1">
+                    <Loader2 size={12} className="animate-spin" />
+                    <span>Sending...</span>
+                  </span>
+                )}
+                {message.delivery === 'failed' && (
+                  <span className="flex items-center space-x-1 text-red-200">
+                    <AlertTriangle size={12} />
+                    <span>Not sent</span>
+                  </span>
+                )}
               </div>
+              {message.delivery === 'failed' && message.error && (
+                <div className="mt-2 text-xs text-red-100">{message.error}</div>
+              )}
+              {isEditable && !isEditing && (
+                <div className="flex justify-end space-x-1 mt-2 pt-2 border-t border-white/20 text-xs">
+                  {message.delivery === 'failed' && onRetryQueued && (
+                    <button
+                      onClick={() => onRetryQueued(message.id)}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md hover:bg-white/20 transition-colors"
+                    >
+                      <RotateCcw size={12} />
+                      <span>Retry</span>
+                    </button>
+                  )}
+                  {onEditQueued && (
+                    <button
+                      onClick={startEditing}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md hover:bg-white/20 transition-colors"
+                    >
+                      <Pencil size={12} />
+                      <span>Edit</span>
+                    </button>
+                  )}
+                  {onCancelQueued && (
+                    <button
+                      onClick={() => onCancelQueued(message.id)}
+                      className="flex items-center space-x-1 px-2 py-1 rounded-md hover:bg-white/20 transition-colors"
+                    >
+                      <X size={12} />
+                      <span>Cancel</span>
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ) : (
             // AI message
@@ -168,59 +247,59 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onQuestionClick
                 )}
 
                 {/* Render parsed content only if there's actual content */}
-                {parsedContent.length > 0 && parsedContent.map((content, index) => (
-                  <div key={index} className="mb-4 last:mb-0">
-                    {content.type === 'text' && (
-                      <div className="prose prose-sm max-w-none text-gray-800">
-                        <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                          {content.content}
-                        </ReactMarkdown>
-                      </div>
-                    )}
-                    {content.type === 'python_artifact' && (
-                      <PythonArtifact title={content.title || ''} code={content.code || ''} />
-                    )}
-                    {content.type === 'chart_artifact' && (
-                      <ChartArtifact 
-                        title={content.title || ''} 
-                        chartOptions={content.chartOptions} 
-                        htmlCdnUrl={(content as any).htmlCdnUrl}
-                        jsonCdnUrl={(content as any).jsonCdnUrl}
-                      />
-                    )}
-                    {content.type === 'followup_question' && (
-                      <FollowUpQuestions questions={content.content} onQuestionClick={onQuestionClick} />
-                    )}
+                <CitationContext.Provider value={citations}>
+                  {bodyContent.map((content, index) => (
+                    <div key={index} className="mb-4 last:mb-0">
+                      {content.type === 'text' && (
+                        <MarkdownContent content={content.content} />
+                      )}
+                      {content.type === 'artifact' && (
+                        <ArtifactView artifact={content} onQuestionClick={onQuestionClick} />
+                      )}
+                    </div>
+                  ))}
+                </CitationContext.Provider>
+
+                {sources.length > 0 && (
+                  <div className="mt-4">
+                    <SourcesPanel sources={sources} activeId={activeSourceId} dataSources={dataSources} />
                   </div>
-                ))}
+                )}
 
                 {/* If no parsed content but has actual content, show raw content with markdown */}
-                {parsedContent.length === 0 && hasContent && (
-                  <div className="prose prose-sm max-w-none text-gray-800">
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                      components={{
-                        h1: ({children}) => <h1 className="text-xl font-bold mb-3 text-gray-900">{children}</h1>,
-                        h2: ({children}) => <h2 className="text-lg font-semibold mb-2 text-gray-900">{children}</h2>,
-                        h3: ({children}) => <h3 className="text-base font-medium mb-2 text-gray-900">{children}</h3>,
-                        p: ({children}) => <p className="mb-2 leading-relaxed">{children}</p>,
-                        ul: ({children}) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
-                        ol: ({children}) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
-                        li: ({children}) => <li className="leading-relaxed">{children}</li>,
-                        strong: ({children}) => <strong className="font-semibold text-gray-900">{children}</strong>,
-                        code: ({children}) => <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">{children}</code>,
-                        pre: ({children}) => <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto text-sm">{children}</pre>,
-                      }}
-                    >
-                      {message.content}
-                    </ReactMarkdown>
+                {parsedContent.length === 0 && hasContent && !isStreaming && (
+                  <MarkdownContent content={message.content} />
+                )}
+
+                {/* Error state with retry */}
+                {isFailed && (
+                  <div className="flex items-center justify-between mt-4 p-3 rounded-lg bg-red-50 border border-red-200">
+                    <div className="flex items-center space-x-2 text-sm text-red-700">
+                      <AlertTriangle size={16} className="flex-shrink-0" />
+                      <span>{message.error || 'Something went wrong while generating this response.'}</span>
+                    </div>
+                    {onRetry && (
+                      <button
+                        onClick={() => onRetry(message.id)}
+                        className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-white border border-red-200 text-sm text-red-700 hover:bg-red-100 transition-colors"
+                      >
+                        <RotateCcw size={14} />
+                        <span>Retry</span>
+                      </button>
+                    )}
                   </div>
                 )}
 
                 {/* Message footer */}
                 <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
-                  <div className="text-xs text-gray-500">
-                    {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  <div className="flex items-center space-x-3 text-xs text-gray-500">
+                    <span>{message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    {isStopped && (
+                      <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full bg-amber-50 border border-amber-200 text-amber-700">
+                        <Square size={10} />
+                        <span>Stopped by user</span>
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2">
                     <button
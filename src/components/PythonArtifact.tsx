@@ -4,9 +4,11 @@ import { Code, Copy, Play } from 'lucide-react';
 interface PythonArtifactProps {
   title: string;
   code: string;
+  // Code is still streaming in
+  isStreaming?: boolean;
 }
 
-const PythonArtifact: React.FC<PythonArtifactProps> = ({ title, code }) => {
+const PythonArtifact: React.FC<PythonArtifactProps> = ({ title, code, isStreaming }) => {
   const [copied, setCopied] = useState(false);
 
   const handleCopy = async () => {
@@ -21,6 +23,7 @@ const PythonArtifact: React.FC<PythonArtifactProps> = ({ title, code }) => {
         <div className="flex items-center space-x-2">
           <Code size={16} className="text-gray-600" />
           <span className="text-sm font-medium text-gray-800">{title}</span>
+          {isStreaming && <span className="text-xs text-gray-500 animate-pulse">Writing code…</span>}
         </div>
         <div className="flex items-center space-x-2">
           <button
@@ -38,6 +41,7 @@ const PythonArtifact: React.FC<PythonArtifactProps> = ({ title, code }) => {
       <div className="p-4">
         <pre className="text-sm text-gray-800 overflow-x-auto whitespace-pre-wrap font-mono">
           <code>{code}</code>
+          {isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 animate-pulse" />}
         </pre>
       </div>
       {copied && (
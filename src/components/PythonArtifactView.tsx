@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { detectTables } from '../artifacts/tableData';
+import DataGrid from './DataGrid';
+import PythonArtifact from './PythonArtifact';
+
+// Execution output artifacts often hold DataFrame.to_string() dumps; show those as grids
+const isOutputTitle = (title: string) => /result|output/i.test(title);
+
+interface PythonArtifactViewProps {
+  title: string;
+  code: string;
+  // Code is still streaming in
+  isStreaming?: boolean;
+}
+
+const PythonArtifactView: React.FC<PythonArtifactViewProps> = ({ title, code, isStreaming }) => {
+  const segments = useMemo(
+    () => (!isStreaming && isOutputTitle(title) ? detectTables(code) : []),
+    [title, code, isStreaming]
+  );
+
+  if (!segments.some(segment => segment.kind === 'table')) {
+    return <PythonArtifact title={title} code={code} isStreaming={isStreaming} />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {segments.map((segment, index) => {
+        if (segment.kind === 'table') {
+          // Text printed right before a table usually describes it
+          const previous = segments[index - 1];
+          const caption = previous?.kind === 'text' ? previous.text.trim() : undefined;
+          return <DataGrid key={index} title={title} caption={caption} table={segment.table} />;
+        }
+        // Captions are shown inside the grid they describe
+        if (segments[index + 1]?.kind === 'table') return null;
+        return <PythonArtifact key={index} title={title} code={segment.text} />;
+      })}
+    </div>
+  );
+};
+
+export default PythonArtifactView;
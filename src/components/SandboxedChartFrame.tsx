@@ -0,0 +1,153 @@
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { trustedContentSources } from '../sanitize';
+
+// Same pinned build ChartArtifact loads, injected when the chart HTML expects Plotly
+const PLOTLY_CDN_URL = 'https://cdn.plot.ly/plotly-2.35.2.min.js';
+
+const MIN_HEIGHT = 200;
+const MAX_HEIGHT = 1200;
+
+export interface ChartFrameHandle {
+  // Ask the frame for a PNG/SVG of its chart; resolves with a data URL
+  exportImage: () => Promise<string>;
+}
+
+interface SandboxedChartFrameProps {
+  html: string;
+  // URL the HTML was fetched from; relative resources resolve against it
+  baseUrl: string;
+  title: string;
+  ref?: React.Ref<ChartFrameHandle>;
+}
+
+// Runs inside the frame: reports its height and answers export requests over postMessage
+const BRIDGE_SCRIPT = `(function () {
+  var post = function (message) {
+    message.source = 'chart-frame';
+    parent.postMessage(message, '*');
+  };
+  var report = function () {
+    post({ type: 'resize', height: Math.ceil(document.documentElement.scrollHeight) });
+  };
+  if (window.ResizeObserver) new ResizeObserver(report).observe(document.body);
+  window.addEventListener('load', report);
+  window.addEventListener('message', function (event) {
+    if (event.source !== parent || !event.data || event.data.type !== 'chart-frame:export') return;
+    var id = event.data.id;
+    var reply = function (dataUrl, error) { post({ type: 'image', id: id, dataUrl: dataUrl, error: error }); };
+    var plot = document.querySelector('.js-plotly-plot');
+    if (plot && window.Plotly) {
+      window.Plotly.toImage(plot, { format: 'png', scale: 2 }).then(function (url) { reply(url); }, function () { reply(null, 'Export failed'); });
+      return;
+    }
+    var canvas = document.querySelector('canvas');
+    if (canvas) {
+      try { reply(canvas.toDataURL('image/png')); return; } catch (e) { /* tainted canvas */ }
+    }
+    var svg = document.querySelector('svg');
+    if (svg) {
+      reply('data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(svg)));
+      return;
+    }
+    reply(null, 'Nothing to export');
+  });
+})();`;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Wrap untrusted chart HTML in a document whose CSP only allows the trusted content hosts
+const buildFrameDocument = (html: string, baseUrl: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const sources = trustedContentSources();
+  const csp = [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' 'unsafe-eval' ${sources}`,
+    `style-src 'unsafe-inline' ${sources}`,
+    `img-src data: blob: ${sources}`,
+    `font-src data: ${sources}`,
+    `connect-src ${sources}`,
+  ].join('; ');
+  const needsPlotly = /plotly|Plotly\.newPlot|plotly-.*\.js/i.test(html) && !/<script[^>]+plotly[^>]*\.js/i.test(html);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(csp)}">
+<base href="${escapeAttribute(baseUrl)}">
+<style>html, body { margin: 0; background: #fff; }</style>
+${needsPlotly ? `<script src="${PLOTLY_CDN_URL}"></script>` : ''}
+${doc.head.innerHTML}
+</head>
+<body>
+${doc.body.innerHTML}
+<script>${BRIDGE_SCRIPT}</script>
+</body>
+</html>`;
+};
+
+// Renders model-provided chart HTML in an opaque-origin sandbox, so its scripts cannot
+// reach the app's storage, cookies, bearer token or DOM
+const SandboxedChartFrame: React.FC<SandboxedChartFrameProps> = ({ html, baseUrl, title, ref }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState(600);
+  const pendingExports = useRef(new Map<number, { resolve: (url: string) => void; reject: (error: Error) => void }>());
+  const nextExportId = useRef(0);
+
+  const srcDoc = useMemo(() => buildFrameDocument(html, baseUrl), [html, baseUrl]);
+
+  useEffect(() => {
+    const exports = pendingExports.current;
+    const handleMessage = (event: MessageEvent) => {
+      // Only trust messages from our own frame
+      if (event.source !== iframeRef.current?.contentWindow || event.data?.source !== 'chart-frame') return;
+      const data = event.data as { type: string; height?: number; id?: number; dataUrl?: string; error?: string };
+      if (data.type === 'resize' && typeof data.height === 'number') {
+        setHeight(Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, data.height)));
+      } else if (data.type === 'image' && typeof data.id === 'number') {
+        const request = exports.get(data.id);
+        exports.delete(data.id);
+        if (typeof data.dataUrl === 'string' && /^data:image\/(png|svg\+xml)[;,]/.test(data.dataUrl)) {
+          request?.resolve(data.dataUrl);
+        } else {
+          request?.reject(new Error(data.error || 'Export failed'));
+        }
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      exports.forEach(request => request.reject(new Error('Chart was closed')));
+      exports.clear();
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    exportImage: () =>
+      new Promise<string>((resolve, reject) => {
+        const frame = iframeRef.current?.contentWindow;
+        if (!frame) {
+          reject(new Error('Chart is not ready'));
+          return;
+        }
+        const id = nextExportId.current++;
+        pendingExports.current.set(id, { resolve, reject });
+        // The sandboxed document has an opaque origin, so '*' is the only usable target
+        frame.postMessage({ type: 'chart-frame:export', id }, '*');
+      }),
+  }), []);
+
+  return (
+    <iframe
+      ref={iframeRef}
+      srcDoc={srcDoc}
+      title={title}
+      sandbox="allow-scripts"
+      referrerPolicy="no-referrer"
+      className="w-full bg-white rounded-lg border border-gray-200"
+      style={{ height }}
+    />
+  );
+};
+
+export default SandboxedChartFrame;
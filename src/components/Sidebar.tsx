@@ -1,18 +1,42 @@
-import React from 'react';
-import { MessageSquare, Plus, Settings, User, Search, MoreVertical } from 'lucide-react';
-import type { Conversation } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MessageSquare, Plus, Settings, User, Search, LogOut, X, Archive, ArrowLeft } from 'lucide-react';
+import type { Conversation, ConversationSearchResult } from '../types';
 import { formatTimestamp } from '../utils';
+import { ApiService } from '../services/api';
+import { describeError } from '../services/errors';
+import { searchConversations, searchResultKey, searchTerms } from '../services/search';
+import ErrorBanner from './ErrorBanner';
+import ConversationList from './ConversationList';
+import HighlightedText from './HighlightedText';
 
 interface SidebarProps {
   conversations: Conversation[];
   activeConversationId: string | null;
   onConversationSelect: (id: string) => void;
   onNewConversation: () => void;
+  // Open a search result, scrolling to its message when it matched one
+  onSearchResultSelect?: (result: ConversationSearchResult) => void;
   onLoadMoreConversations?: () => void | Promise<void>;
   hasNextConversations?: boolean;
   isLoadingConversations?: boolean;
+  onLogout?: () => void;
+  error?: string;
+  onRetry?: () => void;
+  onDismissError?: () => void;
+  // Overflow menu actions on a conversation row
+  onRenameConversation?: (id: string, title: string) => void;
+  onPinConversation?: (id: string, pinned: boolean) => void;
+  onArchiveConversation?: (id: string, archived: boolean) => void;
+  onDuplicateConversation?: (id: string) => void;
+  onExportConversation?: (id: string) => void;
+  onDeleteConversation?: (id: string) => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_PAGE_SIZE = 20;
+// Distance from the bottom of the list at which the next page is requested
+const LOAD_MORE_THRESHOLD_PX = 120;
+
 const Sidebar: React.FC<SidebarProps> = ({
   conversations,
   activeConversationId,
@@ -20,13 +44,110 @@ const Sidebar: React.FC<SidebarProps> = ({
   onNewConversation,
   onLoadMoreConversations,
   hasNextConversations = false,
-  isLoadingConversations = false
+  isLoadingConversations = false,
+  onLogout,
+  error,
+  onRetry,
+  onDismissError,
+  onSearchResultSelect,
+  onRenameConversation,
+  onPinConversation,
+  onArchiveConversation,
+  onDuplicateConversation,
+  onExportConversation,
+  onDeleteConversation
 }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  // The backend is only asked once typing pauses
+  const [backendQuery, setBackendQuery] = useState('');
+  const [backendPage, setBackendPage] = useState(1);
+  const [backendResults, setBackendResults] = useState<{ query: string; results: ConversationSearchResult[]; hasNext: boolean } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchRetryKey, setSearchRetryKey] = useState(0);
+  const trimmedQuery = query.trim();
+  const isSearchActive = trimmedQuery !== '';
+  const terms = useMemo(() => searchTerms(trimmedQuery), [trimmedQuery]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setBackendQuery(trimmedQuery);
+      setBackendPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmedQuery]);
+
+  // Conversations beyond the loaded pages, and messages never opened, are only found by the backend
+  useEffect(() => {
+    if (!backendQuery) {
+      setBackendResults(null);
+      setSearchError(null);
+      return;
+    }
+    const controller = new AbortController();
+    setIsSearching(true);
+    setSearchError(null);
+    ApiService.searchConversations(backendQuery, backendPage, SEARCH_PAGE_SIZE, controller.signal)
+      .then(({ results, hasNext }) => {
+        setBackendResults(prev => ({
+          query: backendQuery,
+          results: backendPage > 1 && prev?.query === backendQuery ? [...prev.results, ...results] : results,
+          hasNext,
+        }));
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Conversation search failed:', error);
+        setSearchError(describeError(error));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSearching(false);
+      });
+    return () => {
+      controller.abort();
+      setIsSearching(false);
+    };
+  }, [backendQuery, backendPage, searchRetryKey]);
+
+  // Loaded conversations answer instantly; backend matches they do not already cover follow
+  const searchResults = useMemo(() => {
+    if (!isSearchActive) return [];
+    const local = searchConversations(conversations, trimmedQuery);
+    const seen = new Set(local.map(searchResultKey));
+    const remote = backendResults?.query === trimmedQuery ? backendResults.results : [];
+    return [...local, ...remote.filter(result => !seen.has(searchResultKey(result)))];
+  }, [conversations, trimmedQuery, isSearchActive, backendResults]);
+  const isSearchPending = isSearching || (isSearchActive && backendResults?.query !== trimmedQuery && !searchError);
+  const hasMoreResults = backendResults?.query === trimmedQuery && backendResults.hasNext;
+
+  const listed = useMemo(
+    () => conversations.filter(conversation => !!conversation.archived === showArchived),
+    [conversations, showArchived]
+  );
+  const archivedCount = useMemo(() => conversations.filter(conversation => conversation.archived).length, [conversations]);
+
+  // Filtering (e.g. to archived) can leave too few rows to scroll, which would never load more
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || isSearchActive || error || !onLoadMoreConversations || !hasNextConversations || isLoadingConversations) return;
+    if (el.scrollHeight <= el.clientHeight + LOAD_MORE_THRESHOLD_PX) {
+      onLoadMoreConversations();
+    }
+  }, [listed, isSearchActive, error, onLoadMoreConversations, hasNextConversations, isLoadingConversations]);
+
   const handleScroll: React.UIEventHandler<HTMLDivElement> = (e) => {
+    if (isSearchActive) {
+      const el = e.currentTarget;
+      if (hasMoreResults && !isSearching && !searchError && el.scrollTop + el.clientHeight >= el.scrollHeight - LOAD_MORE_THRESHOLD_PX) {
+        setBackendPage(page => page + 1);
+      }
+      return;
+    }
     if (!onLoadMoreConversations || !hasNextConversations || isLoadingConversations) return;
     const el = e.currentTarget;
-    const threshold = 120; // px from bottom
-    if (el.scrollTop + el.clientHeight >= el.scrollHeight - threshold) {
+    if (el.scrollTop + el.clientHeight >= el.scrollHeight - LOAD_MORE_THRESHOLD_PX) {
       onLoadMoreConversations();
     }
   };
@@ -50,16 +171,95 @@ const Sidebar: React.FC<SidebarProps> = ({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/70" size={16} />
           <input
             type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Escape') setQuery('');
+            }}
             placeholder="Search conversations..."
-            className="w-full pl-10 pr-4 py-2 bg-black/20 border border-white/30 rounded-lg text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent shadow-inner"
+            className="w-full pl-10 pr-9 py-2 bg-black/20 border border-white/30 rounded-lg text-white placeholder-white/70 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent shadow-inner"
           />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-white/70 hover:text-white hover:bg-white/20 transition-colors"
+              title="Clear search"
+            >
+              <X size={14} />
+            </button>
+          )}
         </div>
+        {!isSearchActive && (showArchived || archivedCount > 0) && (
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="mt-3 flex items-center space-x-1.5 text-xs text-white/70 hover:text-white transition-colors"
+          >
+            {showArchived ? <ArrowLeft size={12} /> : <Archive size={12} />}
+            <span>{showArchived ? 'Back to conversations' : `Archived (${archivedCount})`}</span>
+          </button>
+        )}
       </div>
 
       {/* Conversations List */}
-  <div className="flex-1 overflow-y-auto px-3 py-4" onScroll={handleScroll}>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto px-3 py-4" onScroll={handleScroll}>
         <div className="space-y-2">
-          {conversations.length === 0 ? (
+          {error && (
+            <ErrorBanner message={error} onRetry={onRetry} onDismiss={onDismissError} tone="dark" />
+          )}
+          {isSearchActive ? (
+            <>
+              {searchResults.map(result => (
+                <div
+                  key={searchResultKey(result)}
+                  onClick={() => onSearchResultSelect?.(result)}
+                  className={`p-4 rounded-xl cursor-pointer transition-all duration-200 ${
+                    activeConversationId === result.conversationId
+                      ? 'bg-white/25 border border-white/40 shadow-lg'
+                      : 'bg-black/20 hover:bg-white/15 border border-white/20 hover:border-white/30'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    <MessageSquare size={16} className="text-white/90 flex-shrink-0" />
+                    <h3 className="text-white font-semibold text-sm truncate drop-shadow-sm">
+                      <HighlightedText text={result.title} terms={terms} />
+                    </h3>
+                  </div>
+                  {result.snippet && (
+                    <p className="text-white/80 text-xs line-clamp-2 mb-2 drop-shadow-sm">
+                      <HighlightedText text={result.snippet} terms={terms} />
+                    </p>
+                  )}
+                  <span className="text-white/60 text-xs drop-shadow-sm">{formatTimestamp(result.timestamp)}</span>
+                </div>
+              ))}
+              {searchError && (
+                <ErrorBanner
+                  message={`Could not search all conversations. ${searchError}`}
+                  onRetry={() => setSearchRetryKey(key => key + 1)}
+                  tone="dark"
+                />
+              )}
+              {isSearchPending ? (
+                <div className="flex items-center justify-center py-4">
+                  <div className="flex items-center space-x-2 text-white/80 text-sm">
+                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                    <span>Searching all conversations...</span>
+                  </div>
+                </div>
+              ) : searchResults.length === 0 ? (
+                !searchError && <div className="py-8 text-center text-white/70 text-sm">No matching conversations</div>
+              ) : (
+                !hasMoreResults && <div className="py-3 text-center text-white/50 text-xs">No more results</div>
+              )}
+            </>
+          ) : listed.length === 0 && !isLoadingConversations ? (
+            // Empty state (a load failure is already explained by the banner above)
+            !error && (
+              <div className="py-8 text-center text-white/70 text-sm">
+                {showArchived ? 'No archived conversations' : 'No conversations yet'}
+              </div>
+            )
+          ) : listed.length === 0 ? (
             // Loading state
             <div className="flex items-center justify-center py-8">
               <div className="text-center">
@@ -68,40 +268,21 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             </div>
           ) : (
-            conversations.map((conversation) => (
-              <div
-                key={conversation.id}
-                onClick={() => onConversationSelect(conversation.id)}
-                className={`group relative p-4 rounded-xl cursor-pointer transition-all duration-200 ${
-                  activeConversationId === conversation.id
-                    ? 'bg-white/25 border border-white/40 shadow-lg'
-                    : 'bg-black/20 hover:bg-white/15 border border-white/20 hover:border-white/30'
-                }`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <MessageSquare size={16} className="text-white/90 flex-shrink-0" />
-                      <h3 className="text-white font-semibold text-sm truncate drop-shadow-sm">
-                        {conversation.title}
-                      </h3>
-                    </div>
-                    <p className="text-white/80 text-xs truncate mb-2 drop-shadow-sm">
-                      {conversation.lastMessage}
-                    </p>
-                    <span className="text-white/60 text-xs drop-shadow-sm">
-                      {formatTimestamp(conversation.timestamp)}
-                    </span>
-                  </div>
-                  <button className="opacity-0 group-hover:opacity-100 p-1 rounded-md hover:bg-white/20 transition-all duration-200">
-                    <MoreVertical size={14} className="text-white/80" />
-                  </button>
-                </div>
-              </div>
-            ))
+            <ConversationList
+              conversations={listed}
+              scrollContainerRef={scrollRef}
+              activeConversationId={activeConversationId}
+              onConversationSelect={onConversationSelect}
+              onRenameConversation={onRenameConversation}
+              onPinConversation={onPinConversation}
+              onArchiveConversation={onArchiveConversation}
+              onDuplicateConversation={onDuplicateConversation}
+              onExportConversation={onExportConversation}
+              onDeleteConversation={onDeleteConversation}
+            />
           )}
           {/* Infinite scroll loader */}
-          {isLoadingConversations && conversations.length > 0 && (
+          {!isSearchActive && isLoadingConversations && conversations.length > 0 && (
             <div className="flex items-center justify-center py-4">
               <div className="flex items-center space-x-2 text-white/80 text-sm">
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
@@ -110,7 +291,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             </div>
           )}
           {/* Reached end indicator */}
-          {!isLoadingConversations && !hasNextConversations && conversations.length > 0 && (
+          {!isSearchActive && !isLoadingConversations && !hasNextConversations && !error && conversations.length > 0 && (
             <div className="py-3 text-center text-white/50 text-xs">No more conversations</div>
           )}
         </div>
@@ -128,9 +309,16 @@ const Sidebar: React.FC<SidebarProps> = ({
               <p className="text-white/70 text-xs drop-shadow-sm">Premium Plan</p>
             </div>
           </div>
-          <button className="p-2 rounded-lg hover:bg-white/20 transition-colors">
-            <Settings size={16} className="text-white/90" />
-          </button>
+          <div className="flex items-center space-x-1">
+            <button className="p-2 rounded-lg hover:bg-white/20 transition-colors">
+              <Settings size={16} className="text-white/90" />
+            </button>
+            {onLogout && (
+              <button onClick={onLogout} className="p-2 rounded-lg hover:bg-white/20 transition-colors" title="Sign out">
+                <LogOut size={16} className="text-white/90" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookMarked, Check, ChevronDown, ChevronRight, Columns3, Copy, Database, Filter } from 'lucide-react';
+import type { SourceReference } from '../artifacts/citations';
+import { describeSource } from '../artifacts/citations';
+
+interface SourcesPanelProps {
+  sources: SourceReference[];
+  // Source whose footnote was clicked last; opened and scrolled into view
+  activeId?: string | null;
+  // Data sources selected for the conversation, so references to them can be marked
+  dataSources?: string[];
+}
+
+const SourceEntry: React.FC<{ source: SourceReference; active: boolean; selected: boolean }> = ({ source, active, selected }) => {
+  const ref = useRef<HTMLLIElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [active]);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(describeSource(source, source.id));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <li
+      ref={ref}
+      id={`source-${source.id}`}
+      className={`flex items-start space-x-3 p-3 rounded-lg border transition-colors ${
+        active ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white'
+      }`}
+    >
+      <span className="flex-shrink-0 min-w-6 h-6 px-1.5 rounded-full bg-gray-100 text-xs font-semibold text-gray-700 flex items-center justify-center">
+        {source.id}
+      </span>
+      <div className="flex-1 min-w-0 space-y-1.5 text-xs text-gray-700">
+        <div className="flex items-center flex-wrap gap-x-2 gap-y-1">
+          <Database size={12} className="text-gray-500 flex-shrink-0" />
+          <span className="font-medium text-gray-900 break-all">
+            {[source.dataset, source.table].filter(Boolean).join(' › ') || source.title}
+          </span>
+          {selected && (
+            <span className="px-1.5 py-0.5 rounded-full bg-green-50 border border-green-200 text-green-700">
+              Selected data source
+            </span>
+          )}
+        </div>
+        {source.title && (source.dataset || source.table) && <div className="text-gray-600">{source.title}</div>}
+        {source.description && <div className="text-gray-500">{source.description}</div>}
+        {source.columns.length > 0 && (
+          <div className="flex items-start space-x-2">
+            <Columns3 size={12} className="text-gray-500 flex-shrink-0 mt-0.5" />
+            <div className="flex flex-wrap gap-1">
+              {source.columns.map(column => (
+                <code key={column} className="px-1.5 py-0.5 rounded bg-gray-100 font-mono">{column}</code>
+              ))}
+            </div>
+          </div>
+        )}
+        {source.filters.length > 0 && (
+          <div className="flex items-start space-x-2">
+            <Filter size={12} className="text-gray-500 flex-shrink-0 mt-0.5" />
+            <div className="space-y-0.5">
+              {source.filters.map(filter => (
+                <code key={filter} className="block font-mono text-gray-700">{filter}</code>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      <button
+        onClick={handleCopy}
+        className="p-1.5 rounded-md hover:bg-gray-100 transition-colors flex-shrink-0"
+        title={copied ? 'Copied!' : 'Copy reference'}
+      >
+        {copied ? <Check size={12} className="text-green-600" /> : <Copy size={12} className="text-gray-500" />}
+      </button>
+    </li>
+  );
+};
+
+// Dataset, table, columns and filters behind each footnote number in a message
+const SourcesPanel: React.FC<SourcesPanelProps> = ({ sources, activeId, dataSources }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Clicking a footnote opens the panel on its source
+  useEffect(() => {
+    if (activeId) setIsOpen(true);
+  }, [activeId]);
+
+  return (
+    <div className="border border-gray-200 rounded-lg bg-gray-50/60">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+      >
+        <span className="flex items-center space-x-2">
+          <BookMarked size={14} className="text-gray-600" />
+          <span className="font-medium">Sources</span>
+          <span className="text-xs text-gray-500">{sources.length}</span>
+        </span>
+        {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+      </button>
+      {isOpen && (
+        <ol className="px-3 pb-3 space-y-2">
+          {sources.map(source => (
+            <SourceEntry
+              key={source.id}
+              source={source}
+              active={source.id === activeId}
+              selected={!!source.dataset && !!dataSources?.includes(source.dataset)}
+            />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default SourcesPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { RotateCcw, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// Confirmation for an action that only takes effect once the toast goes away
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => (
+  <div
+    role="status"
+    className="fixed bottom-6 left-6 z-50 flex items-center space-x-3 pl-4 pr-2 py-2 rounded-xl bg-gray-900/95 text-white text-sm shadow-2xl border border-white/10"
+  >
+    <span className="max-w-64 truncate">{message}</span>
+    <button
+      onClick={onUndo}
+      className="flex items-center space-x-1 px-2 py-1 rounded-md text-blue-300 hover:bg-white/10 transition-colors font-medium"
+    >
+      <RotateCcw size={14} />
+      <span>Undo</span>
+    </button>
+    <button onClick={onDismiss} className="p-1 rounded-md text-white/70 hover:bg-white/10 transition-colors" title="Dismiss">
+      <X size={14} />
+    </button>
+  </div>
+);
+
+export default UndoToast;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, FileQuestion } from 'lucide-react';
+
+interface UnsupportedArtifactProps {
+  tag: string;
+  content: string;
+  pending?: boolean;
+}
+
+// Fallback for artifact tags this frontend does not know yet: collapsed by default, raw body on demand
+const UnsupportedArtifact: React.FC<UnsupportedArtifactProps> = ({ tag, content, pending }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 bg-gray-100 hover:bg-gray-200/70 transition-colors text-left"
+      >
+        <div className="flex items-center space-x-2">
+          <FileQuestion size={16} className="text-gray-500" />
+          <span className="text-sm font-medium text-gray-800">Unsupported artifact</span>
+          <code className="text-xs text-gray-500 font-mono">&lt;{tag}&gt;</code>
+          {pending && <span className="text-xs text-gray-500 animate-pulse">Receiving…</span>}
+        </div>
+        {isOpen ? <ChevronDown size={16} className="text-gray-500" /> : <ChevronRight size={16} className="text-gray-500" />}
+      </button>
+      {isOpen && (
+        <div className="p-4">
+          <pre className="text-xs text-gray-700 overflow-x-auto whitespace-pre-wrap font-mono max-h-80">
+            {content.trim()}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnsupportedArtifact;
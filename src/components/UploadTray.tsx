@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Eye, EyeOff, FileJson, FileSpreadsheet, Loader2, X } from 'lucide-react';
+import type { Attachment, AttachmentFormat } from '../types';
+import type { ColumnType, FilePreview } from '../services/filePreview';
+import { formatBytes } from '../utils';
+
+// A file picked in the composer, from upload start until the message it belongs to is sent
+export interface PendingUpload {
+  key: string;
+  file: File;
+  format: AttachmentFormat | null;
+  status: 'uploading' | 'done' | 'error';
+  progress: number;
+  attachment?: Attachment;
+  error?: string;
+  preview?: FilePreview;
+  previewError?: string;
+}
+
+interface UploadTrayProps {
+  uploads: PendingUpload[];
+  onRemove: (key: string) => void;
+}
+
+const TYPE_STYLES: Record<ColumnType, string> = {
+  integer: 'bg-blue-50 text-blue-700',
+  number: 'bg-blue-50 text-blue-700',
+  boolean: 'bg-purple-50 text-purple-700',
+  date: 'bg-amber-50 text-amber-700',
+  text: 'bg-gray-100 text-gray-600',
+  empty: 'bg-gray-50 text-gray-400',
+};
+
+const PreviewTable: React.FC<{ preview: FilePreview }> = ({ preview }) => (
+  <div className="mt-2 border border-gray-200 rounded-lg overflow-hidden">
+    <div className="overflow-x-auto max-h-64">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 sticky top-0">
+          <tr>
+            {preview.columns.map((column, index) => (
+              <th key={index} className="px-2 py-1.5 text-left font-semibold text-gray-700 border-b border-gray-200 whitespace-nowrap">
+                <div>{column.name || `Column ${index + 1}`}</div>
+                <span className={`inline-block mt-0.5 px-1 rounded font-normal ${TYPE_STYLES[column.type]}`}>{column.type}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {preview.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="odd:bg-white even:bg-gray-50/60">
+              {row.map((cell, index) => (
+                <td key={index} className="px-2 py-1 border-b border-gray-100 text-gray-800 whitespace-nowrap max-w-48 truncate">
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <div className="px-2 py-1 bg-gray-50 text-[11px] text-gray-500 border-t border-gray-200">
+      First {preview.rows.length} row{preview.rows.length !== 1 ? 's' : ''}
+      {preview.totalRows !== undefined && ` of ${preview.totalRows.toLocaleString()}`} · {preview.columns.length} column
+      {preview.columns.length !== 1 ? 's' : ''}
+    </div>
+  </div>
+);
+
+// Files waiting to go out with the next message: upload progress, errors and a preview of each
+const UploadTray: React.FC<UploadTrayProps> = ({ uploads, onRemove }) => {
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const previewed = uploads.find(upload => upload.key === previewKey);
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {uploads.map(upload => {
+          const Icon = upload.format === 'json' ? FileJson : FileSpreadsheet;
+          const canPreview = !!upload.preview || !!upload.previewError;
+          return (
+            <div
+              key={upload.key}
+              className={`relative flex items-center space-x-2 pl-2 pr-1 py-1.5 rounded-lg border text-xs overflow-hidden ${
+                upload.status === 'error' ? 'border-red-200 bg-red-50 text-red-700' : 'border-gray-200 bg-white text-gray-700'
+              }`}
+            >
+              <Icon size={14} className="flex-shrink-0" />
+              <div className="min-w-0">
+                <div className="max-w-48 truncate font-medium" title={upload.file.name}>{upload.file.name}</div>
+                <div className="flex items-center space-x-1 text-[11px] opacity-80">
+                  {upload.status === 'uploading' && (
+                    <>
+                      <Loader2 size={10} className="animate-spin" />
+                      <span>Uploading {Math.round(upload.progress * 100)}%</span>
+                    </>
+                  )}
+                  {upload.status === 'done' && (
+                    <>
+                      <CheckCircle2 size={10} className="text-green-600" />
+                      <span>{formatBytes(upload.file.size)} · attached to next message</span>
+                    </>
+                  )}
+                  {upload.status === 'error' && (
+                    <>
+                      <AlertTriangle size={10} />
+                      <span className="max-w-56 truncate" title={upload.error}>{upload.error}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+              {canPreview && (
+                <button
+                  onClick={() => setPreviewKey(previewKey === upload.key ? null : upload.key)}
+                  className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+                  title={previewKey === upload.key ? 'Hide preview' : 'Preview'}
+                >
+                  {previewKey === upload.key ? <EyeOff size={12} /> : <Eye size={12} />}
+                </button>
+              )}
+              <button
+                onClick={() => onRemove(upload.key)}
+                className="p-1 rounded-md hover:bg-gray-100 transition-colors"
+                title={upload.status === 'uploading' ? 'Cancel upload' : 'Remove'}
+              >
+                <X size={12} />
+              </button>
+              {upload.status === 'uploading' && (
+                <div className="absolute left-0 bottom-0 h-0.5 bg-blue-500 transition-all" style={{ width: `${upload.progress * 100}%` }} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {previewed?.preview && <PreviewTable preview={previewed.preview} />}
+      {previewed?.previewError && (
+        <div className="text-xs text-gray-500">Preview unavailable: {previewed.previewError}</div>
+      )}
+    </div>
+  );
+};
+
+export default UploadTray;
@@ -0,0 +1,227 @@
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { AlertTriangle, Loader2, Square, X } from 'lucide-react';
+import type { TranscriptionSession } from '../services/transcription';
+import { getTranscriptionProvider } from '../services/transcription';
+
+export interface VoiceRecorderHandle {
+  // Finish recording and deliver the final transcript
+  stop: () => void;
+}
+
+interface VoiceRecorderProps {
+  // Transcript so far; called repeatedly while recording and once more with the final text
+  onTranscript: (text: string) => void;
+  // Recording is over; `cancelled` means the dictated text should be discarded
+  onClose: (cancelled: boolean) => void;
+  ref?: React.Ref<VoiceRecorderHandle>;
+}
+
+type RecorderState = 'starting' | 'recording' | 'finishing' | 'error';
+
+// MediaRecorder emits a chunk this often, which paces interim transcripts for endpoint providers
+const CHUNK_INTERVAL_MS = 1000;
+const WAVEFORM_BARS = 48;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const describeMicError = (error: unknown) => {
+  if (error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError')) {
+    return 'Microphone access was denied';
+  }
+  if (error instanceof DOMException && error.name === 'NotFoundError') return 'No microphone was found';
+  return error instanceof Error ? error.message : 'Could not start recording';
+};
+
+// Records from the microphone while mounted: live waveform and timer, with the audio handed to the
+// configured transcription provider
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onTranscript, onClose, ref }) => {
+  const [state, setState] = useState<RecorderState>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const sessionRef = useRef<TranscriptionSession | null>(null);
+  // Latest callbacks, so the recording effect runs once per mount
+  const callbacksRef = useRef({ onTranscript, onClose });
+  callbacksRef.current = { onTranscript, onClose };
+
+  useEffect(() => {
+    let disposed = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let frame = 0;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const fail = (message: string) => {
+      if (disposed) return;
+      setError(message);
+      setState('error');
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+    };
+
+    const drawWaveform = (analyser: AnalyserNode) => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+      const samples = new Uint8Array(analyser.fftSize);
+      const draw = () => {
+        analyser.getByteTimeDomainData(samples);
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        context.fillStyle = '#ef4444';
+        const step = Math.floor(samples.length / WAVEFORM_BARS);
+        const barWidth = canvas.width / WAVEFORM_BARS;
+        for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+          // Peak deviation from silence (128) within this bar's slice of samples
+          let peak = 0;
+          for (let index = bar * step; index < (bar + 1) * step; index++) {
+            peak = Math.max(peak, Math.abs(samples[index] - 128));
+          }
+          const height = Math.max(2, (peak / 128) * canvas.height);
+          context.fillRect(bar * barWidth + 1, (canvas.height - height) / 2, barWidth - 2, height);
+        }
+        frame = requestAnimationFrame(draw);
+      };
+      draw();
+    };
+
+    const start = async () => {
+      const provider = getTranscriptionProvider();
+      if (!provider.isSupported() || !navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        fail('Voice input is not supported in this browser');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (micError) {
+        fail(describeMicError(micError));
+        return;
+      }
+      if (disposed) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      try {
+        sessionRef.current = provider.start({
+          onInterim: text => !disposed && callbacksRef.current.onTranscript(text),
+          onError: transcriptionError => fail(transcriptionError.message),
+        });
+      } catch (startError) {
+        fail(startError instanceof Error ? startError.message : 'Could not start transcription');
+        return;
+      }
+
+      const recorder = new MediaRecorder(stream);
+      recorder.ondataavailable = event => {
+        if (event.data.size > 0) sessionRef.current?.pushAudio?.(event.data);
+      };
+      recorder.start(CHUNK_INTERVAL_MS);
+      recorderRef.current = recorder;
+
+      audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      drawWaveform(analyser);
+
+      const startedAt = Date.now();
+      timer = setInterval(() => setElapsed(Date.now() - startedAt), 250);
+      setState('recording');
+    };
+    void start();
+
+    return () => {
+      disposed = true;
+      sessionRef.current?.cancel();
+      cancelAnimationFrame(frame);
+      clearInterval(timer);
+      if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+      stream?.getTracks().forEach(track => track.stop());
+      void audioContext?.close();
+    };
+  }, []);
+
+  // Let the recorder flush its last chunk before asking for the final transcript
+  const stop = () => {
+    const recorder = recorderRef.current;
+    const session = sessionRef.current;
+    if (state !== 'recording' || !recorder || !session) return;
+    setState('finishing');
+    recorder.onstop = () => {
+      session.stop().then(
+        text => {
+          callbacksRef.current.onTranscript(text);
+          callbacksRef.current.onClose(false);
+        },
+        stopError => {
+          setError(stopError instanceof Error ? stopError.message : 'Transcription failed');
+          setState('error');
+        }
+      );
+    };
+    recorder.stop();
+  };
+
+  const cancel = () => {
+    sessionRef.current?.cancel();
+    onClose(true);
+  };
+
+  useImperativeHandle(ref, () => ({ stop }));
+
+  return (
+    <div className="flex items-center space-x-3 mb-3 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm">
+      {state === 'error' ? (
+        <>
+          <AlertTriangle size={14} className="text-red-600 flex-shrink-0" />
+          <span className="flex-1 text-red-700">{error}</span>
+          <button
+            onClick={() => onClose(false)}
+            className="px-2 py-1 rounded-md text-xs text-red-700 hover:bg-red-100 transition-colors"
+          >
+            Dismiss
+          </button>
+        </>
+      ) : (
+        <>
+          <span className={`w-2 h-2 rounded-full bg-red-500 flex-shrink-0 ${state === 'recording' ? 'animate-pulse' : ''}`} />
+          <span className="tabular-nums text-red-700 w-10">{formatElapsed(elapsed)}</span>
+          <canvas ref={canvasRef} width={240} height={28} className="flex-1 min-w-0 h-7" />
+          {state === 'starting' && <span className="text-xs text-red-700">Starting microphone...</span>}
+          {state === 'finishing' ? (
+            <span className="flex items-center space-x-1 text-xs text-red-700">
+              <Loader2 size={12} className="animate-spin" />
+              <span>Transcribing...</span>
+            </span>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={stop}
+                disabled={state !== 'recording'}
+                className="flex items-center space-x-1 px-2 py-1 rounded-md bg-red-500 text-white text-xs hover:bg-red-600 transition-colors disabled:opacity-50"
+                title="Stop and keep the text"
+              >
+                <Square size={10} />
+                <span>Done</span>
+              </button>
+              <button
+                type="button"
+                onClick={cancel}
+                className="p-1 rounded-md text-red-700 hover:bg-red-100 transition-colors"
+                title="Discard recording"
+              >
+                <X size={14} />
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VoiceRecorder;
@@ -0,0 +1,53 @@
+// Runtime configuration sourced from Vite env variables (see .env.example).
+// Deployments can also inject `window.__APP_CONFIG__` before the app bundle loads
+// to point a single build at staging, prod or a local stand-in.
+
+interface RuntimeConfig {
+  apiBaseUrl?: string;
+  trustedContentHosts?: string[];
+  transcriptionUrl?: string;
+}
+
+declare global {
+  interface Window {
+    __APP_CONFIG__?: RuntimeConfig;
+  }
+}
+
+const DEFAULT_API_BASE_URL = 'https://backend-test.microgcc.in/api';
+
+const runtimeConfig: RuntimeConfig = (typeof window !== 'undefined' && window.__APP_CONFIG__) || {};
+
+export const API_BASE_URL = (runtimeConfig.apiBaseUrl || import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+
+// Per-attempt timeout for JSON API calls; streamed chat responses are not subject to it
+export const API_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS) || 20000;
+
+// Extra attempts for idempotent GETs that fail with a network or 5xx error
+const configuredMaxRetries = Number(import.meta.env.VITE_API_MAX_RETRIES ?? 2);
+export const API_MAX_RETRIES =
+  Number.isFinite(configuredMaxRetries) && configuredMaxRetries >= 0 ? Math.floor(configuredMaxRetries) : 2;
+
+// Optional fixed bearer token for local development; skips the login screen when set
+export const STATIC_AUTH_TOKEN = import.meta.env.VITE_AUTH_TOKEN || '';
+
+// Serve conversations and streamed answers from the fixtures in public/ instead of the real backend
+export const USE_MOCK_BACKEND = import.meta.env.VITE_USE_MOCK_BACKEND === 'true';
+
+// Hosts that chart HTML/JSON and markdown images may be loaded from. `*.example.com`
+// matches any subdomain. Everything else the model links to is refused.
+const DEFAULT_TRUSTED_CONTENT_HOSTS = ['cdn.plot.ly', '*.microgcc.in'];
+
+export const TRUSTED_CONTENT_HOSTS: string[] =
+  runtimeConfig.trustedContentHosts ||
+  (import.meta.env.VITE_TRUSTED_CONTENT_HOSTS
+    ? import.meta.env.VITE_TRUSTED_CONTENT_HOSTS.split(',').map(host => host.trim()).filter(Boolean)
+    : DEFAULT_TRUSTED_CONTENT_HOSTS);
+
+// Where dictated audio is transcribed: the browser's Web Speech API, or an HTTP endpoint that
+// accepts a multipart `file` upload and answers `{ text }` (the backend or a local Whisper server)
+export const TRANSCRIPTION_PROVIDER: 'browser' | 'endpoint' =
+  import.meta.env.VITE_TRANSCRIPTION_PROVIDER === 'endpoint' ? 'endpoint' : 'browser';
+
+export const TRANSCRIPTION_URL =
+  runtimeConfig.transcriptionUrl || import.meta.env.VITE_TRANSCRIPTION_URL || `${API_BASE_URL}/transcribe`;
@@ -0,0 +1,60 @@
+import { TRUSTED_CONTENT_HOSTS } from './config';
+
+// Guards for URLs and HTML that come from model output and must be treated as untrusted
+
+const parseUrl = (url: string, base?: string): URL | null => {
+  try {
+    return new URL(url, base);
+  } catch {
+    return null;
+  }
+};
+
+const hostMatches = (hostname: string, pattern: string) =>
+  pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1)) && hostname.length > pattern.length - 1
+    : hostname === pattern;
+
+// https URLs on a trusted content host (see TRUSTED_CONTENT_HOSTS)
+export const isTrustedContentUrl = (url: string | undefined): boolean => {
+  const parsed = url ? parseUrl(url) : null;
+  return !!parsed && parsed.protocol === 'https:' && TRUSTED_CONTENT_HOSTS.some(pattern => hostMatches(parsed.hostname, pattern));
+};
+
+export const contentHostOf = (url: string | undefined) => (url && parseUrl(url)?.hostname) || url || '';
+
+// Links may point anywhere over http(s) or mailto, or to an in-page anchor; anything else
+// (javascript:, data:, vbscript:, file:...) is dropped
+export const sanitizeLinkUrl = (url: string): string | null => {
+  if (url.startsWith('#')) return url;
+  const parsed = parseUrl(url);
+  return parsed && ['http:', 'https:', 'mailto:'].includes(parsed.protocol) ? parsed.href : null;
+};
+
+// Images load without a click, so they are limited to trusted hosts
+export const sanitizeImageUrl = (url: string): string | null => (isTrustedContentUrl(url) ? url : null);
+
+// CSP source list for the trusted hosts, used inside sandboxed chart frames
+export const trustedContentSources = () => TRUSTED_CONTENT_HOSTS.map(host => `https://${host}`).join(' ');
+
+// ECharts renders tooltips as HTML and string formatters can carry markup, so model-written
+// options get text-only tooltips and lose any formatter string that contains a tag
+export const sanitizeEChartsOptions = (options: Record<string, unknown>): Record<string, unknown> => {
+  const strip = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(strip);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, item]) => !(key === 'formatter' && typeof item === 'string' && /[<>]/.test(item)))
+        .map(([key, item]) => [key, strip(item)])
+    );
+  };
+  const sanitized = strip(options) as Record<string, unknown>;
+  const textOnly = (tooltip: unknown) =>
+    tooltip && typeof tooltip === 'object' && !Array.isArray(tooltip) ? { ...tooltip, renderMode: 'richText' } : tooltip;
+  // Options without a tooltip stay without one
+  if (sanitized.tooltip) {
+    sanitized.tooltip = Array.isArray(sanitized.tooltip) ? sanitized.tooltip.map(textOnly) : textOnly(sanitized.tooltip);
+  }
+  return sanitized;
+};
@@ -0,0 +1,163 @@
+import { API_BASE_URL, STATIC_AUTH_TOKEN } from '../config';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+// Pluggable source of credentials for ApiService. Swap the provider with
+// setAuthProvider() to integrate SSO or a host application's session.
+export interface AuthProvider {
+  getAccessToken(): string | null;
+  // Providers without an interactive login (e.g. SSO) can leave this out
+  login?(email: string, password: string): Promise<void>;
+  // Try to obtain a fresh access token after a 401; resolves false when the user must log in again
+  refreshAccessToken(): Promise<boolean>;
+  logout(): void;
+}
+
+interface LoginResponse {
+  status: string;
+  data: AuthTokens;
+  message: string;
+}
+
+const TOKEN_STORAGE_KEY = 'aigenie.auth';
+
+type AuthListener = (authenticated: boolean) => void;
+const listeners = new Set<AuthListener>();
+
+const notify = (authenticated: boolean) => {
+  listeners.forEach(listener => listener(authenticated));
+};
+
+// Email/password login against the backend, persisting tokens in localStorage
+export class StoredTokenAuthProvider implements AuthProvider {
+  private tokens: AuthTokens | null = null;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor() {
+    try {
+      const raw = localStorage.getItem(TOKEN_STORAGE_KEY);
+      this.tokens = raw ? JSON.parse(raw) : null;
+    } catch {
+      this.tokens = null;
+    }
+  }
+
+  getAccessToken(): string | null {
+    return this.tokens?.accessToken ?? null;
+  }
+
+  async login(email: string, password: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+
+    const body: LoginResponse | null = await response.json().catch(() => null);
+    if (!response.ok || !body?.data?.accessToken) {
+      throw new Error(body?.message || `Login failed (status ${response.status})`);
+    }
+
+    this.store(body.data);
+    notify(true);
+  }
+
+  refreshAccessToken(): Promise<boolean> {
+    // Concurrent 401s share a single refresh request
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  logout(): void {
+    this.store(null);
+    notify(false);
+  }
+
+  private async doRefresh(): Promise<boolean> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) {
+      this.logout();
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      const body: LoginResponse | null = await response.json().catch(() => null);
+      if (!response.ok || !body?.data?.accessToken) {
+        this.logout();
+        return false;
+      }
+      this.store({ refreshToken, ...body.data });
+      return true;
+    } catch (error) {
+      console.error('Failed to refresh access token:', error);
+      return false;
+    }
+  }
+
+  private store(tokens: AuthTokens | null) {
+    this.tokens = tokens;
+    if (tokens) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  }
+}
+
+// Fixed token from VITE_AUTH_TOKEN, for local development against a known account
+export class StaticTokenAuthProvider implements AuthProvider {
+  private readonly token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  getAccessToken(): string | null {
+    return this.token;
+  }
+
+  async refreshAccessToken(): Promise<boolean> {
+    return false;
+  }
+
+  logout(): void {
+    notify(false);
+  }
+}
+
+let provider: AuthProvider = STATIC_AUTH_TOKEN
+  ? new StaticTokenAuthProvider(STATIC_AUTH_TOKEN)
+  : new StoredTokenAuthProvider();
+
+export const getAuthProvider = (): AuthProvider => provider;
+
+export const setAuthProvider = (next: AuthProvider) => {
+  provider = next;
+  notify(!!next.getAccessToken());
+};
+
+// Subscribe to login/logout transitions; returns an unsubscribe function
+export const onAuthChange = (listener: AuthListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getAuthorizationHeader = (): Record<string, string> => {
+  const token = provider.getAccessToken();
+  if (!token) return {};
+  return { Authorization: token.startsWith('Bearer ') ? token : `Bearer ${token}` };
+};
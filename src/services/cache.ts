@@ -0,0 +1,132 @@
+import type { Conversation, Message } from '../types';
+
+// IndexedDB-backed store of conversations and their messages, so reopened
+// threads render instantly and survive reloads or going offline. Every
+// operation fails soft: without IndexedDB the app simply behaves uncached.
+
+const DB_NAME = 'aigenie-cache';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const MESSAGES_STORE = 'messages';
+
+export interface CachedMessages {
+  conversationId: string;
+  // Conversation `updatedAt` (ms) the messages were fetched against
+  updatedAt: number;
+  messages: Message[];
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+          db.createObjectStore(MESSAGES_STORE, { keyPath: 'conversationId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Conversation cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one operation against a store, resolving with `fallback` when the cache is unusable
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fallback: T,
+  run: (store: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return fallback;
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return await run(store);
+  } catch (error) {
+    console.warn(`Conversation cache ${mode} on ${storeName} failed:`, error);
+    return fallback;
+  }
+};
+
+// Streaming-only fields are never persisted
+const toCachedMessage = (message: Message): Message => {
+  const cached = { ...message };
+  delete cached.parts;
+  return cached;
+};
+
+export class ConversationCache {
+  static getConversations(): Promise<Conversation[]> {
+    return withStore(CONVERSATIONS_STORE, 'readonly', [], async store => {
+      const conversations = await promisify<Conversation[]>(store.getAll());
+      return conversations
+        .map(conv => ({ ...conv, messages: [] }))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    });
+  }
+
+  static getConversation(id: string): Promise<Conversation | undefined> {
+    return withStore(CONVERSATIONS_STORE, 'readonly', undefined, store =>
+      promisify<Conversation | undefined>(store.get(id))
+    );
+  }
+
+  static putConversations(conversations: Conversation[]): Promise<void> {
+    return withStore(CONVERSATIONS_STORE, 'readwrite', undefined, async store => {
+      await Promise.all(conversations.map(conv => promisify(store.put({ ...conv, messages: [] }))));
+    });
+  }
+
+  static getMessages(conversationId: string): Promise<CachedMessages | undefined> {
+    return withStore(MESSAGES_STORE, 'readonly', undefined, store =>
+      promisify<CachedMessages | undefined>(store.get(conversationId))
+    );
+  }
+
+  static putMessages(conversationId: string, messages: Message[], updatedAt: number): Promise<void> {
+    return withStore(MESSAGES_STORE, 'readwrite', undefined, async store => {
+      const entry: CachedMessages = { conversationId, updatedAt, messages: messages.map(toCachedMessage) };
+      await promisify(store.put(entry));
+    });
+  }
+
+  static async deleteConversation(conversationId: string): Promise<void> {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', undefined, async store => {
+      await promisify(store.delete(conversationId));
+    });
+    await withStore(MESSAGES_STORE, 'readwrite', undefined, async store => {
+      await promisify(store.delete(conversationId));
+    });
+  }
+
+  // Drop everything, e.g. on logout so the next account never sees another user's threads
+  static async clear(): Promise<void> {
+    await withStore(CONVERSATIONS_STORE, 'readwrite', undefined, async store => {
+      await promisify(store.clear());
+    });
+    await withStore(MESSAGES_STORE, 'readwrite', undefined, async store => {
+      await promisify(store.clear());
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import type { Attachment, Message, StreamData } from '../types';
+import { parseStreamData } from '../utils';
+import { ApiService } from './api';
+import { NetworkError, ParseError } from './errors';
+import { readSSEStream } from './sse';
+
+const MAX_RESUME_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+
+export interface ChatStreamHandlers {
+  onEvent: (data: StreamData) => void;
+  // The resumed stream replays the answer from the start, so accumulated parts must be dropped
+  onReset?: () => void;
+  onReconnecting?: (attempt: number) => void;
+}
+
+export type ChatStreamResult =
+  | { kind: 'completed'; messageId?: string }
+  // The connection could not be resumed but the backend had already stored the finished answer
+  | { kind: 'recovered'; message: Message };
+
+// Raised when a stream dropped mid-answer and every resume attempt failed
+export class StreamInterruptedError extends NetworkError {
+  readonly messageId?: string;
+
+  constructor(message: string, messageId?: string) {
+    super(message);
+    this.name = 'StreamInterruptedError';
+    this.messageId = messageId;
+  }
+}
+
+interface StreamState {
+  messageId?: string;
+  lastEventId?: string;
+  retryDelay?: number;
+  finished: boolean;
+}
+
+const consumeStream = async (
+  body: ReadableStream<Uint8Array>,
+  state: StreamState,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+) => {
+  for await (const event of readSSEStream(body, signal)) {
+    if (event.id) state.lastEventId = event.id;
+    if (event.retry !== undefined) state.retryDelay = event.retry;
+
+    const data = parseStreamData(event.data);
+    if (!data) continue;
+
+    state.messageId = data.messageId || state.messageId;
+    handlers.onEvent(data);
+    if (data.status === 'completed' || data.status === 'error') {
+      state.finished = true;
+    }
+  }
+};
+
+// Wait before the next reconnect, holding off entirely while the browser reports being offline
+const waitForReconnect = (delay: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', onOnline);
+      reject(signal.reason);
+    };
+    const finish = () => {
+      signal.removeEventListener('abort', onAbort);
+      window.removeEventListener('online', onOnline);
+      resolve();
+    };
+    const onOnline = () => {
+      clearTimeout(timer);
+      timer = setTimeout(finish, BASE_RETRY_DELAY_MS);
+    };
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    if (navigator.onLine) {
+      timer = setTimeout(finish, delay);
+    } else {
+      window.addEventListener('online', onOnline, { once: true });
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const findFinishedMessage = async (conversationId: string, messageId: string): Promise<Message | null> => {
+  try {
+    const messages = await ApiService.fetchConversationMessages(conversationId);
+    return messages.find(msg => msg.id === messageId && msg.type === 'ai') ?? null;
+  } catch (error) {
+    console.warn('Failed to refetch conversation while resuming:', error);
+    return null;
+  }
+};
+
+// Send a chat message and stream the answer, transparently resuming if the connection drops
+export const streamChatResponse = async (
+  conversationId: string,
+  query: string,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal,
+  attachments: Attachment[] = []
+): Promise<ChatStreamResult> => {
+  const state: StreamState = { finished: false };
+
+  const response = await ApiService.sendMessage(conversationId, query, signal, attachments);
+  if (!response.body) {
+    throw new ParseError('Chat response has no body to stream');
+  }
+
+  try {
+    await consumeStream(response.body, state, handlers, signal);
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Chat stream disconnected:', error);
+  }
+
+  if (state.finished) {
+    return { kind: 'completed', messageId: state.messageId };
+  }
+
+  // Without a message id there is nothing the backend can resume
+  if (!state.messageId) {
+    throw new StreamInterruptedError('Stream ended before the response started');
+  }
+
+  for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+    handlers.onReconnecting?.(attempt);
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    await waitForReconnect(state.retryDelay ?? backoff, signal);
+
+    try {
+      const resumed = await ApiService.resumeMessage(conversationId, state.messageId, state.lastEventId, signal);
+      if (resumed?.body) {
+        // Without an event id the backend cannot skip what we already have
+        if (!state.lastEventId) handlers.onReset?.();
+        await consumeStream(resumed.body, state, handlers, signal);
+        if (state.finished) {
+          return { kind: 'completed', messageId: state.messageId };
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.warn(`Resume attempt ${attempt} failed:`, error);
+    }
+
+    // The backend may have finished the answer while we were disconnected
+    const finished = await findFinishedMessage(conversationId, state.messageId);
+    if (finished) {
+      return { kind: 'recovered', message: finished };
+    }
+  }
+
+  throw new StreamInterruptedError('Connection lost and the response could not be resumed', state.messageId);
+};
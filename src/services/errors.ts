@@ -0,0 +1,112 @@
+// Typed failures raised by ApiService so callers can tell an empty result from a broken one
+
+export type ApiErrorKind = 'network' | 'auth' | 'not_found' | 'server' | 'parse';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  // `message` field from the backend response envelope, when one was returned
+  readonly backendMessage?: string;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; backendMessage?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.backendMessage = options.backendMessage;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Network request failed', cause?: unknown) {
+    super('network', message, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(status: number, backendMessage?: string) {
+    super('auth', backendMessage || `Not authorized (status ${status})`, { status, backendMessage });
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(backendMessage?: string) {
+    super('not_found', backendMessage || 'Resource not found', { status: 404, backendMessage });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(status: number, backendMessage?: string) {
+    super('server', backendMessage || `HTTP error! status: ${status}`, { status, backendMessage });
+    this.name = 'ServerError';
+  }
+}
+
+export class ParseError extends ApiError {
+  constructor(message = 'Unexpected response from server', cause?: unknown) {
+    super('parse', message, { cause });
+    this.name = 'ParseError';
+  }
+}
+
+// Network failures, timeouts, 429 and 5xx are worth another attempt; auth, 404 and bad payloads are not
+export const isRetryableError = (error: unknown) =>
+  error instanceof NetworkError ||
+  (error instanceof ServerError && error.status !== undefined && (error.status === 429 || error.status >= 500));
+
+// Build the matching error for a non-2xx response, pulling the backend's `message` if present
+export const errorFromResponse = async (response: Response): Promise<ApiError> => {
+  let backendMessage: string | undefined;
+  try {
+    const body = await response.clone().json();
+    if (body && typeof body.message === 'string') {
+      backendMessage = body.message;
+    }
+  } catch {
+    // Non-JSON error bodies (proxies, HTML error pages) carry no backend message
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(response.status, backendMessage);
+  }
+  if (response.status === 404) {
+    return new NotFoundError(backendMessage);
+  }
+  return new ServerError(response.status, backendMessage);
+};
+
+// Short, user-facing description for banners and message error states
+export const describeError = (error: unknown): string => {
+  if (!(error instanceof ApiError)) {
+    return 'Something went wrong. Please try again.';
+  }
+  switch (error.kind) {
+    case 'network':
+      return error instanceof TimeoutError
+        ? 'The server took too long to respond. Please try again.'
+        : 'Could not reach the server. Check your connection and try again.';
+    case 'auth':
+      return 'Your session has expired or you do not have access. Please sign in again.';
+    case 'not_found':
+      return error.backendMessage || 'This item could not be found.';
+    case 'parse':
+      return 'The server sent a response we could not read.';
+    case 'server':
+      return error.backendMessage
+        ? `Server error: ${error.backendMessage}`
+        : `The server encountered an error${error.status ? ` (${error.status})` : ''}.`;
+  }
+};
@@ -0,0 +1,36 @@
+import type { Conversation, Message } from '../types';
+import { parseAIContent } from '../utils';
+
+// Markdown transcript of a conversation; artifacts are kept as fenced blocks labelled with their tag
+export const conversationToMarkdown = (conversation: Conversation, messages: Message[]): string => {
+  const lines = [`# ${conversation.title}`, '', `_Exported ${new Date().toLocaleString()}_`, ''];
+  for (const message of messages) {
+    lines.push(`## ${message.type === 'user' ? 'You' : 'Assistant'} · ${message.timestamp.toLocaleString()}`, '');
+    if (message.type === 'user') {
+      lines.push(message.content, '');
+      if (message.attachments?.length) {
+        lines.push(...message.attachments.map(attachment => `- Attached: ${attachment.name}`), '');
+      }
+      continue;
+    }
+    for (const part of parseAIContent(message.content)) {
+      lines.push(part.type === 'text' ? part.content : `\`\`\`${part.tag}\n${part.content.trim()}\n\`\`\``, '');
+    }
+  }
+  return lines.join('\n');
+};
+
+export const downloadConversation = (conversation: Conversation, messages: Message[]) => {
+  const blob = new Blob([conversationToMarkdown(conversation, messages)], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${(conversation.title || 'conversation').replace(/[^\w-]+/g, '_')}.md`;
+  document.body.appendChild(link);
+  link.click();
+  // Revoking right away can cancel the download before the browser has read the blob
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    link.remove();
+  }, 0);
+};
@@ -0,0 +1,204 @@
+import type { AttachmentFormat } from '../types';
+import { splitCsvLine } from '../artifacts/tableData';
+
+// Client-side look at an upload before it is sent: first rows and a guessed type per column.
+// XLSX and Parquet readers are loaded on demand so they stay out of the main bundle.
+
+export const ACCEPTED_UPLOAD_EXTENSIONS: Record<string, AttachmentFormat> = {
+  csv: 'csv',
+  xlsx: 'xlsx',
+  parquet: 'parquet',
+  json: 'json',
+  ndjson: 'json',
+  jsonl: 'json',
+};
+
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+// Formats that have to be read whole are only previewed below this size
+const MAX_PREVIEW_BYTES = 25 * 1024 * 1024;
+// CSV is read from the start of the file only
+const CSV_PREVIEW_BYTES = 64 * 1024;
+export const PREVIEW_ROWS = 10;
+
+export type ColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'text' | 'empty';
+
+export interface FilePreview {
+  columns: Array<{ name: string; type: ColumnType }>;
+  rows: string[][];
+  // Known for formats with a row count in their metadata
+  totalRows?: number;
+}
+
+export const uploadFormatOf = (file: File): AttachmentFormat | null =>
+  ACCEPTED_UPLOAD_EXTENSIONS[file.name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+/* ---------------- type inference ---------------- */
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && /^(|nan|NaN|None|null|NA|N\/A)$/.test(value.trim()));
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const valueType = (value: unknown): Exclude<ColumnType, 'empty'> => {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'bigint') return 'integer';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (value instanceof Date) return 'date';
+  if (typeof value !== 'string') return 'text';
+  const text = value.trim();
+  if (/^(true|false)$/i.test(text)) return 'boolean';
+  if (/^[-+]?\d+$/.test(text)) return 'integer';
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return 'number';
+  if (ISO_DATE.test(text)) return 'date';
+  return 'text';
+};
+
+const inferColumnType = (values: unknown[]): ColumnType => {
+  const types = new Set(values.filter(value => !isMissing(value)).map(valueType));
+  if (types.size === 0) return 'empty';
+  if (types.size === 1) return [...types][0];
+  // Integer and decimal values mix in most numeric columns
+  if (types.size === 2 && types.has('integer') && types.has('number')) return 'number';
+  return 'text';
+};
+
+const displayValue = (value: unknown): string => {
+  if (isMissing(value)) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  return String(value);
+};
+
+const buildPreview = (header: string[], body: unknown[][], totalRows?: number): FilePreview => {
+  const rows = body.slice(0, PREVIEW_ROWS);
+  return {
+    columns: header.map((name, index) => ({ name, type: inferColumnType(body.map(row => row[index])) })),
+    rows: rows.map(row => header.map((_, index) => displayValue(row[index]))),
+    totalRows,
+  };
+};
+
+const fromRecords = (records: Record<string, unknown>[], totalRows?: number): FilePreview => {
+  const header = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  return buildPreview(header, records.map(record => header.map(name => record[name])), totalRows);
+};
+
+/* ---------------- readers ---------------- */
+
+const previewCsv = async (file: File): Promise<FilePreview> => {
+  const text = await file.slice(0, CSV_PREVIEW_BYTES).text();
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  // The last line of a truncated read is probably cut off
+  if (file.size > CSV_PREVIEW_BYTES) lines.pop();
+  const nonEmpty = lines.filter(line => line.trim() !== '');
+  if (nonEmpty.length === 0) throw new Error('The file is empty');
+  // European exports often use semicolons
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    nonEmpty[0].split(candidate).length > nonEmpty[0].split(best).length ? candidate : best
+  );
+  const [header, ...body] = nonEmpty.map(line => splitCsvLine(line, delimiter));
+  return buildPreview(header.map(name => name.trim()), body);
+};
+
+const previewJson = async (file: File): Promise<FilePreview> => {
+  const text = await file.text();
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    // Newline-delimited JSON: one record per line
+    value = text.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  }
+  if (Array.isArray(value)) {
+    const records = value.filter((row): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row));
+    if (records.length === 0) throw new Error('Expected an array of records');
+    return fromRecords(records, records.length);
+  }
+  if (value && typeof value === 'object') {
+    const { columns, rows, data } = value as { columns?: unknown; rows?: unknown; data?: unknown };
+    const body = Array.isArray(rows) ? rows : data;
+    if (Array.isArray(columns) && Array.isArray(body)) {
+      const matrix = body.filter(Array.isArray);
+      return buildPreview(columns.map(String), matrix, matrix.length);
+    }
+  }
+  throw new Error('Expected an array of records or { columns, rows }');
+};
+
+const xmlChildren = (parent: Element, localName: string) =>
+  Array.from(parent.getElementsByTagName('*')).filter(element => element.localName === localName);
+
+// "AB12" -> 27
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+$/, '')].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+// Minimal XLSX reader: the first worksheet's cell values, without styles or formulas
+const previewXlsx = async (file: File): Promise<FilePreview> => {
+  const { unzipSync, strFromU8 } = await import('fflate');
+  const archive = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+    filter: entry => /^xl\/(workbook\.xml|_rels\/workbook\.xml\.rels|sharedStrings\.xml|worksheets\/[^/]+\.xml)$/.test(entry.name),
+  });
+  const parse = (path: string) => {
+    const entry = archive[path];
+    return entry ? new DOMParser().parseFromString(strFromU8(entry), 'application/xml').documentElement : null;
+  };
+
+  const workbook = parse('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+  const firstSheet = xmlChildren(workbook, 'sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  const relations = parse('xl/_rels/workbook.xml.rels');
+  const relation = relations && xmlChildren(relations, 'Relationship').find(element => element.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target')?.replace(/^\/?(xl\/)?/, 'xl/') ?? 'xl/worksheets/sheet1.xml';
+  const sheet = parse(target);
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const strings = parse('xl/sharedStrings.xml');
+  const sharedStrings = strings
+    ? xmlChildren(strings, 'si').map(item => xmlChildren(item, 't').map(text => text.textContent ?? '').join(''))
+    : [];
+  const sheetRows = xmlChildren(sheet, 'row');
+  const matrix = sheetRows.slice(0, PREVIEW_ROWS * 5 + 1).map(row => {
+    const cells: unknown[] = [];
+    for (const cell of xmlChildren(row, 'c')) {
+      const type = cell.getAttribute('t');
+      const raw = xmlChildren(cell, 'v')[0]?.textContent ?? '';
+      const value =
+        type === 's' ? sharedStrings[Number(raw)] :
+        type === 'inlineStr' ? xmlChildren(cell, 't').map(text => text.textContent ?? '').join('') :
+        type === 'b' ? raw === '1' :
+        type === 'str' || type === 'e' ? raw :
+        raw === '' ? null : Number(raw);
+      cells[columnIndex(cell.getAttribute('r') ?? 'A')] = value;
+    }
+    return cells;
+  });
+  const [header = [], ...body] = matrix;
+  const width = Math.max(header.length, ...body.map(row => row.length));
+  const names = Array.from({ length: width }, (_, index) => displayValue(header[index]) || `Column ${index + 1}`);
+  return buildPreview(names, body, Math.max(0, sheetRows.length - 1));
+};
+
+const previewParquet = async (file: File): Promise<FilePreview> => {
+  const { parquetMetadata, parquetReadObjects } = await import('hyparquet');
+  const buffer = await file.arrayBuffer();
+  const metadata = parquetMetadata(buffer);
+  const records = await parquetReadObjects({ file: buffer, metadata, rowEnd: PREVIEW_ROWS * 5 });
+  return fromRecords(records, Number(metadata.num_rows));
+};
+
+export const previewFile = async (file: File, format: AttachmentFormat): Promise<FilePreview> => {
+  if (format !== 'csv' && file.size > MAX_PREVIEW_BYTES) {
+    throw new Error('File is too large to preview');
+  }
+  switch (format) {
+    case 'csv':
+      return previewCsv(file);
+    case 'json':
+      return previewJson(file);
+    case 'xlsx':
+      return previewXlsx(file);
+    case 'parquet':
+      return previewParquet(file);
+  }
+};
@@ -0,0 +1,248 @@
+import type { Attachment, AttachmentFormat, Conversation, ConversationUpdate, DataCatalogItem, DataSourceSelection, Message, StreamData } from '../types';
+import { applyStreamEvent, composeMessageContent, createMessageParts, parseStreamData, sleep } from '../utils';
+import type { BadChartReport, ConversationsPage, SearchPage } from './api';
+import { searchConversations } from './search';
+import { parseSSEText } from './sse';
+
+// Local stand-in for the backend, enabled with VITE_USE_MOCK_BACKEND=true.
+// Streams are replayed from public/streamed_result.txt and the seeded
+// conversation uses public/combined_result.txt, so demos work offline.
+
+const STREAM_FIXTURE_URL = '/streamed_result.txt';
+const COMBINED_FIXTURE_URL = '/combined_result.txt';
+const EVENT_DELAY_MS = 500;
+// Simulated upload speed, so progress bars are visible in demos
+const UPLOAD_BYTES_PER_TICK = 256 * 1024;
+const UPLOAD_TICK_MS = 100;
+const UPLOAD_MAX_TICKS = 20;
+
+const DATA_CATALOG: DataCatalogItem[] = [
+  { id: 'ds_sales', name: 'Sales', kind: 'dataSource', description: 'Orders, returns and revenue by region' },
+  { id: 'ds_finance', name: 'Finance', kind: 'dataSource', description: 'COGS, opex and ledger entries' },
+  { id: 'ds_inventory', name: 'Inventory', kind: 'dataSource', description: 'Stock levels by warehouse and SKU' },
+  { id: 'asset_weekly_cogs', name: 'Weekly COGS report', kind: 'asset' },
+  { id: 'asset_pricing_model', name: 'Pricing model workbook', kind: 'asset' },
+];
+
+interface MockConversation {
+  conversation: Conversation;
+  messages: Message[];
+}
+
+const store = new Map<string, MockConversation>();
+// Shared by concurrent first calls so the demo conversation is only added once
+let seedPromise: Promise<void> | null = null;
+let idCounter = 0;
+
+const nextId = (prefix: string) => `${prefix}_mock${Date.now()}${idCounter++}`;
+
+const fetchFixture = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load mock fixture ${url} (${response.status})`);
+  }
+  return response.text();
+};
+
+const seed = async () => {
+  const content = await fetchFixture(COMBINED_FIXTURE_URL);
+  const id = nextId('conversation');
+  const createdAt = new Date(Date.now() - 60 * 60 * 1000);
+  const messages: Message[] = [
+    { id: `${id}_msg_user`, content: 'Show me COGS by week as a line chart', type: 'user', timestamp: createdAt, status: 'completed' },
+    { id: `${id}_msg`, content, type: 'ai', timestamp: createdAt, status: 'completed' },
+  ];
+  store.set(id, {
+    conversation: {
+      id,
+      title: 'Weekly COGS analysis (demo)',
+      lastMessage: 'Click to view conversation',
+      timestamp: createdAt,
+      messages: [],
+      selectedAssets: ['asset_weekly_cogs'],
+      selectedDataSources: ['ds_finance'],
+    },
+    messages,
+  });
+};
+
+const ensureSeeded = () => {
+  if (!seedPromise) {
+    seedPromise = seed();
+    // A failed fixture load is retried by the next call instead of leaving the store empty for good
+    seedPromise.catch(() => {
+      seedPromise = null;
+    });
+  }
+  return seedPromise;
+};
+
+export class MockBackend {
+  static async fetchConversationsPage(page: number, limit: number): Promise<ConversationsPage> {
+    await ensureSeeded();
+    const all = Array.from(store.values())
+      .map(entry => entry.conversation)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const start = (page - 1) * limit;
+    const totalPages = Math.ceil(all.length / limit);
+
+    return {
+      conversations: all.slice(start, start + limit).map(conv => ({ ...conv, messages: [] })),
+      page,
+      limit,
+      hasNext: page < totalPages,
+      total: all.length,
+      totalPages,
+    };
+  }
+
+  static async fetchConversationMessages(conversationId: string): Promise<Message[]> {
+    await ensureSeeded();
+    return [...(store.get(conversationId)?.messages ?? [])];
+  }
+
+  static async searchConversations(query: string, page: number, limit: number): Promise<SearchPage> {
+    await ensureSeeded();
+    const conversations = Array.from(store.values())
+      .map(entry => ({ ...entry.conversation, messages: entry.messages }))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const results = searchConversations(conversations, query);
+    const start = (page - 1) * limit;
+    return { results: results.slice(start, start + limit), page, hasNext: start + limit < results.length };
+  }
+
+  static async createConversation(title: string, selection?: DataSourceSelection): Promise<Conversation> {
+    const conversation: Conversation = {
+      id: nextId('conversation'),
+      title,
+      lastMessage: 'No messages yet',
+      timestamp: new Date(),
+      messages: [],
+      selectedAssets: selection?.selectedAssets ?? [],
+      selectedDataSources: selection?.selectedDataSources ?? [],
+    };
+    store.set(conversation.id, { conversation, messages: [] });
+    return conversation;
+  }
+
+  static async updateConversationSources(conversationId: string, selection: DataSourceSelection): Promise<void> {
+    const entry = store.get(conversationId);
+    if (entry) {
+      entry.conversation = { ...entry.conversation, ...selection };
+    }
+  }
+
+  static async updateConversation(conversationId: string, update: ConversationUpdate): Promise<void> {
+    const entry = store.get(conversationId);
+    if (entry) {
+      entry.conversation = { ...entry.conversation, ...update };
+    }
+  }
+
+  static async deleteConversation(conversationId: string): Promise<void> {
+    store.delete(conversationId);
+  }
+
+  static async duplicateConversation(conversationId: string, title: string): Promise<Conversation> {
+    const source = store.get(conversationId);
+    if (!source) throw new Error(`Unknown conversation ${conversationId}`);
+    const id = nextId('conversation');
+    const conversation: Conversation = {
+      ...source.conversation,
+      id,
+      title,
+      timestamp: new Date(),
+      messages: [],
+      pinned: false,
+      archived: false,
+    };
+    store.set(id, {
+      conversation,
+      messages: source.messages.map((message, index) => ({ ...message, id: `${id}_msg${index}` })),
+    });
+    return conversation;
+  }
+
+  // No titling model offline; the client names conversations itself
+  static async generateTitle(): Promise<string | null> {
+    return null;
+  }
+
+  static async fetchDataCatalog(): Promise<DataCatalogItem[]> {
+    return DATA_CATALOG;
+  }
+
+  // Replays the recorded stream as a live SSE response, rewriting ids to the mock conversation
+  static async sendMessage(conversationId: string, message: string, signal?: AbortSignal, attachments: Attachment[] = []): Promise<Response> {
+    const events = parseSSEText(await fetchFixture(STREAM_FIXTURE_URL));
+    const messageId = nextId('message');
+    const encoder = new TextEncoder();
+    const timestamp = new Date();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let parts = createMessageParts();
+        try {
+          for (const [index, event] of events.entries()) {
+            await sleep(EVENT_DELAY_MS, signal);
+            const parsed = parseStreamData(event.data);
+            if (!parsed) continue;
+
+            const data: StreamData = { ...parsed, conversationId, messageId };
+            parts = applyStreamEvent(parts, data);
+            controller.enqueue(encoder.encode(`id: ${index}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+
+          const entry = store.get(conversationId);
+          if (entry) {
+            entry.messages.push(
+              {
+                id: `${messageId}_user`,
+                content: message,
+                type: 'user',
+                timestamp,
+                status: 'completed',
+                attachments: attachments.length > 0 ? attachments : undefined,
+              },
+              { id: messageId, content: composeMessageContent(parts), type: 'ai', timestamp: new Date(), status: 'completed' }
+            );
+            entry.conversation = { ...entry.conversation, timestamp: new Date() };
+          }
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  // Mock streams are generated client-side, so there is never anything to reattach to
+  static async resumeMessage(): Promise<Response | null> {
+    return null;
+  }
+
+  static async cancelMessage(): Promise<boolean> {
+    return true;
+  }
+
+  // Pretends to upload in fixed-size ticks; nothing leaves the browser
+  static async uploadFile(
+    file: File,
+    format: AttachmentFormat,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<Attachment> {
+    const ticks = Math.min(UPLOAD_MAX_TICKS, Math.max(1, Math.ceil(file.size / UPLOAD_BYTES_PER_TICK)));
+    for (let tick = 1; tick <= ticks; tick++) {
+      await sleep(UPLOAD_TICK_MS, signal);
+      onProgress(tick / ticks);
+    }
+    return { id: nextId('upload'), name: file.name, size: file.size, format };
+  }
+
+  static async reportBadChart(report: BadChartReport): Promise<void> {
+    console.info('Mock backend received bad chart report:', report);
+  }
+}
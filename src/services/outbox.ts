@@ -0,0 +1,45 @@
+import type { OutboxItem } from '../types';
+
+// Messages composed while offline (or while the backend is unreachable) are kept
+// here until they can be delivered, and survive page reloads via localStorage.
+
+const OUTBOX_STORAGE_KEY = 'aigenie.outbox';
+
+interface StoredOutboxItem extends Omit<OutboxItem, 'createdAt'> {
+  createdAt: string;
+}
+
+export class Outbox {
+  static load(): OutboxItem[] {
+    try {
+      const raw = localStorage.getItem(OUTBOX_STORAGE_KEY);
+      const stored: StoredOutboxItem[] = raw ? JSON.parse(raw) : [];
+      return stored.map(item => ({
+        ...item,
+        createdAt: new Date(item.createdAt),
+        // A reload mid-send leaves no way to know if it arrived; queue it again rather than lose it
+        state: item.state === 'sending' ? 'queued' : item.state,
+      }));
+    } catch (error) {
+      console.warn('Failed to read outbox:', error);
+      return [];
+    }
+  }
+
+  static save(items: OutboxItem[]) {
+    try {
+      if (items.length === 0) {
+        localStorage.removeItem(OUTBOX_STORAGE_KEY);
+        return;
+      }
+      const stored: StoredOutboxItem[] = items.map(item => ({ ...item, createdAt: item.createdAt.toISOString() }));
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Failed to persist outbox:', error);
+    }
+  }
+
+  static clear() {
+    localStorage.removeItem(OUTBOX_STORAGE_KEY);
+  }
+}
@@ -0,0 +1,77 @@
+import type { Conversation, ConversationSearchResult, Message } from '../types';
+import { parseAIContent } from '../utils';
+
+// Conversation search shared by the sidebar (over loaded pages) and the mock backend.
+// A result matches when every whitespace-separated term appears, ignoring case.
+
+// Message matches listed per conversation, so one long thread cannot crowd out the rest
+const MAX_MESSAGE_MATCHES = 3;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+export const searchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+const matchesAll = (text: string, terms: string[]) => {
+  const lower = text.toLowerCase();
+  return terms.length > 0 && terms.every(term => lower.includes(term));
+};
+
+// AI answers are searched by their prose only, not chart specs or other artifact payloads
+const plainTextCache = new WeakMap<Message, string>();
+const plainText = (message: Message): string => {
+  let text = plainTextCache.get(message);
+  if (text === undefined) {
+    text = message.type === 'ai'
+      ? parseAIContent(message.content).map(part => (part.type === 'text' ? part.content : '')).join(' ')
+      : message.content;
+    text = text.replace(/\s+/g, ' ').trim();
+    plainTextCache.set(message, text);
+  }
+  return text;
+};
+
+// A window of `text` around the first matching term
+export const makeSnippet = (text: string, terms: string[]): string => {
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index !== -1));
+  const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_BEFORE) : 0;
+  const end = start + SNIPPET_LENGTH;
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Split `text` into plain and matching pieces for highlighting
+export const highlightSegments = (text: string, terms: string[]): Array<{ text: string; match: boolean }> => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const escaped = [...terms].sort((a, b) => b.length - a.length).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text
+    .split(new RegExp(`(${escaped.join('|')})`, 'gi'))
+    .filter(Boolean)
+    .map(piece => ({ text: piece, match: terms.includes(piece.toLowerCase()) }));
+};
+
+// Title and message matches in the given conversations, in list order. Only messages already
+// in memory are searched; the backend covers the rest.
+export const searchConversations = (conversations: Conversation[], query: string): ConversationSearchResult[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+  const results: ConversationSearchResult[] = [];
+  for (const conversation of conversations) {
+    if (matchesAll(conversation.title, terms)) {
+      results.push({ conversationId: conversation.id, title: conversation.title, snippet: '', timestamp: conversation.timestamp });
+    }
+    const matches = conversation.messages.filter(message => matchesAll(plainText(message), terms));
+    for (const message of matches.slice(0, MAX_MESSAGE_MATCHES)) {
+      results.push({
+        conversationId: conversation.id,
+        title: conversation.title,
+        messageId: message.id,
+        snippet: makeSnippet(plainText(message), terms),
+        timestamp: message.timestamp,
+      });
+    }
+  }
+  return results;
+};
+
+export const searchResultKey = (result: ConversationSearchResult) => `${result.conversationId}:${result.messageId ?? ''}`;
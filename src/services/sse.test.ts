@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseSSEText, SSEParser } from './sse';
+
+describe('SSEParser', () => {
+  it('joins multi-line data fields with newlines', () => {
+    expect(parseSSEText('data: first\ndata: second\ndata:third\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond\nthird', id: undefined, retry: undefined },
+    ]);
+  });
+
+  it('reads event, id and retry fields and keeps the last id across events', () => {
+    const parser = new SSEParser();
+    const events = parser.push('event: update\nid: 7\nretry: 3000\ndata: a\n\ndata: b\n\n');
+    expect(events).toEqual([
+      { event: 'update', data: 'a', id: '7', retry: 3000 },
+      { event: 'message', data: 'b', id: '7', retry: 3000 },
+    ]);
+    expect(parser.lastId).toBe('7');
+    expect(parser.retryDelay).toBe(3000);
+  });
+
+  it('ignores invalid retry values and ids containing NUL', () => {
+    const parser = new SSEParser();
+    parser.push('id: 1\nretry: 500\ndata: a\n\nid: 2\0\nretry: soon\ndata: b\n\n');
+    expect(parser.lastId).toBe('1');
+    expect(parser.retryDelay).toBe(500);
+  });
+
+  it('buffers lines and CRLF pairs split across chunks', () => {
+    const parser = new SSEParser();
+    const text = 'data: {"status": "started"}\r\n\r\ndata: two\r\n\r\n';
+    const events = [...text].flatMap(char => parser.push(char));
+    expect(events.map(event => event.data)).toEqual(['{"status": "started"}', 'two']);
+  });
+
+  it('skips comments and events without data', () => {
+    expect(parseSSEText(': keep-alive\n\nevent: ping\n\ndata: x\n\n').map(event => event.data)).toEqual(['x']);
+  });
+
+  it('dispatches a final event that has no trailing blank line on flush', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: last')).toEqual([]);
+    expect(parser.flush().map(event => event.data)).toEqual(['last']);
+  });
+});
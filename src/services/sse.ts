@@ -0,0 +1,168 @@
+// Incremental Server-Sent Events parser following the WHATWG event stream format.
+// Chunks can be pushed as they arrive; partial lines are buffered until complete.
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export class SSEParser {
+  private buffer = '';
+  private pendingCR = false;
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  get lastId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  // Reconnection delay requested by the server via the `retry:` field
+  get retryDelay(): number | undefined {
+    return this.retry;
+  }
+
+  // Feed a decoded text chunk and return every event it completed
+  push(chunk: string): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    let text = chunk;
+
+    // A CR at the end of the previous chunk may be the first half of a CRLF pair
+    if (this.pendingCR && text.startsWith('\n')) {
+      text = text.substring(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      const line = this.buffer.substring(start, i);
+      if (ch === '\r') {
+        if (i + 1 < this.buffer.length) {
+          if (this.buffer[i + 1] === '\n') i++;
+        } else {
+          this.pendingCR = true;
+        }
+      }
+      start = i + 1;
+
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    this.buffer = this.buffer.substring(start);
+    return events;
+  }
+
+  // Dispatch whatever is left once the stream has ended without a trailing blank line
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const event = this.dispatch();
+    if (event) events.push(event);
+    this.pendingCR = false;
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // Lines starting with a colon are comments (often used as keep-alives)
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.substring(0, colon);
+    let value = colon === -1 ? '' : line.substring(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored per spec
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    const hasData = this.dataLines.length > 0;
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry,
+    };
+
+    this.dataLines = [];
+    this.eventType = '';
+
+    return hasData ? event : null;
+  }
+}
+
+// Read a fetch response body and yield SSE events as soon as they are complete
+export async function* readSSEStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  // Cancelling the reader settles any pending read, which ends the loop below
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    signal?.throwIfAborted();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    // A cancelled reader reports `done`, so surface the abort instead of a clean end
+    signal?.throwIfAborted();
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+// Parse a complete SSE document (e.g. a recorded fixture) into its events
+export const parseSSEText = (text: string): SSEEvent[] => {
+  const parser = new SSEParser();
+  return [...parser.push(text), ...parser.flush()];
+};
@@ -0,0 +1,29 @@
+// Conversations start with this title until they are named automatically or by hand
+export const DEFAULT_CONVERSATION_TITLE = 'New Chat';
+
+const MAX_TITLE_WORDS = 8;
+const MAX_TITLE_LENGTH = 60;
+// Politeness and filler that says nothing about the topic
+const FILLER_PREFIX = /^(please|hey|hi|hello|ok(ay)?|so|can you|could you|would you|will you|i want to|i'd like to|i would like to|help me|show me|tell me|give me|let's|lets)\b[\s,]*/i;
+
+// Local fallback when the backend cannot name a conversation: a short phrase from the first question
+export const deriveTitle = (query: string): string => {
+  let text = query
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/[`*_#>[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  text = text.split(/(?<=[.?!])\s/)[0];
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    text = text.replace(FILLER_PREFIX, '');
+  }
+
+  let title = '';
+  for (const word of text.split(' ').slice(0, MAX_TITLE_WORDS)) {
+    if (title && title.length + word.length + 1 > MAX_TITLE_LENGTH) break;
+    title = title ? `${title} ${word}` : word.slice(0, MAX_TITLE_LENGTH);
+  }
+  title = title.replace(/[\s.,;:!?-]+$/, '');
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : '';
+};
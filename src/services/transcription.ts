@@ -0,0 +1,214 @@
+import { API_BASE_URL, TRANSCRIPTION_PROVIDER, TRANSCRIPTION_URL } from '../config';
+import { getAuthorizationHeader } from './auth';
+import { NetworkError, ParseError, errorFromResponse } from './errors';
+
+export interface TranscriptionHandlers {
+  // Transcript of everything said so far; replaces the previous interim text
+  onInterim: (text: string) => void;
+  onError: (error: Error) => void;
+}
+
+// One dictation, from the first recorded chunk to the final transcript
+export interface TranscriptionSession {
+  // Recorded audio as MediaRecorder emits it; providers that capture audio themselves ignore it
+  pushAudio?(chunk: Blob): void;
+  // Finish and resolve with the final transcript
+  stop(): Promise<string>;
+  cancel(): void;
+}
+
+// Pluggable speech-to-text for the Mic button. Swap it with setTranscriptionProvider()
+// to use another engine.
+export interface TranscriptionProvider {
+  isSupported(): boolean;
+  start(handlers: TranscriptionHandlers): TranscriptionSession;
+}
+
+/* ---------------- Web Speech API ---------------- */
+
+// lib.dom does not declare the Web Speech API, and Chrome only ships it prefixed
+interface SpeechRecognitionResultLike {
+  readonly 0: { transcript: string };
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: { results: ArrayLike<SpeechRecognitionResultLike> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const SPEECH_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser',
+  network: 'Speech recognition needs a network connection',
+  'audio-capture': 'No microphone was found',
+};
+
+export class WebSpeechTranscriptionProvider implements TranscriptionProvider {
+  isSupported(): boolean {
+    return !!getSpeechRecognition();
+  }
+
+  start(handlers: TranscriptionHandlers): TranscriptionSession {
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) throw new Error('Speech recognition is not supported in this browser');
+
+    // Chrome ends a continuous session after a long pause; text from ended sessions is kept here
+    let committed = '';
+    let current = '';
+    let finishing = false;
+    let ended = false;
+    let onFinished: (() => void) | null = null;
+    const transcript = () => `${committed} ${current}`.replace(/\s+/g, ' ').trim();
+
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = navigator.language;
+    recognition.onresult = event => {
+      current = Array.from(event.results, result => result[0].transcript).join('');
+      handlers.onInterim(transcript());
+    };
+    recognition.onerror = event => {
+      // Silence and our own abort are not failures
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      finishing = true;
+      handlers.onError(new Error(SPEECH_ERRORS[event.error] ?? `Speech recognition failed (${event.error})`));
+    };
+    recognition.onend = () => {
+      committed = transcript();
+      current = '';
+      if (finishing) {
+        ended = true;
+        onFinished?.();
+        return;
+      }
+      try {
+        recognition.start();
+      } catch (error) {
+        ended = finishing = true;
+        handlers.onError(error instanceof Error ? error : new Error('Speech recognition stopped'));
+      }
+    };
+    recognition.start();
+
+    return {
+      stop: () =>
+        new Promise<string>(resolve => {
+          // Already over, e.g. after an error
+          if (ended) {
+            resolve(committed);
+            return;
+          }
+          finishing = true;
+          onFinished = () => resolve(committed);
+          recognition.stop();
+        }),
+      cancel: () => {
+        finishing = true;
+        recognition.abort();
+      },
+    };
+  }
+}
+
+/* ---------------- HTTP endpoint ---------------- */
+
+// Recorded audio is re-sent in full every few seconds for interim text, since WebM chunks
+// cannot be decoded on their own
+const INTERIM_INTERVAL_MS = 3000;
+
+export class EndpointTranscriptionProvider implements TranscriptionProvider {
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  private async transcribe(audio: Blob): Promise<string> {
+    const body = new FormData();
+    body.append('file', audio, 'dictation.webm');
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        // Only our own backend gets the user's token, never a third-party or local server
+        headers: this.url.startsWith(API_BASE_URL) ? getAuthorizationHeader() : {},
+        body,
+      });
+    } catch (error) {
+      throw new NetworkError('Transcription request failed', error);
+    }
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+    const result = (await response.json().catch(() => null)) as { text?: unknown; data?: { text?: unknown } } | null;
+    const text = result?.text ?? result?.data?.text;
+    if (typeof text !== 'string') {
+      throw new ParseError('Transcription response has no text');
+    }
+    return text.trim();
+  }
+
+  start(handlers: TranscriptionHandlers): TranscriptionSession {
+    const chunks: Blob[] = [];
+    let closed = false;
+    let interimInFlight = false;
+    let lastInterimAt = Date.now();
+    const recording = () => new Blob(chunks, { type: chunks[0]?.type || 'audio/webm' });
+
+    return {
+      pushAudio: chunk => {
+        chunks.push(chunk);
+        if (closed || interimInFlight || Date.now() - lastInterimAt < INTERIM_INTERVAL_MS) return;
+        interimInFlight = true;
+        lastInterimAt = Date.now();
+        this.transcribe(recording())
+          .then(text => !closed && handlers.onInterim(text))
+          // The final request reports errors; a missed interim update is harmless
+          .catch(error => console.warn('Interim transcription failed:', error))
+          .finally(() => {
+            interimInFlight = false;
+          });
+      },
+      stop: () => {
+        closed = true;
+        return chunks.length > 0 ? this.transcribe(recording()) : Promise.resolve('');
+      },
+      cancel: () => {
+        closed = true;
+      },
+    };
+  }
+}
+
+let provider: TranscriptionProvider =
+  TRANSCRIPTION_PROVIDER === 'endpoint'
+    ? new EndpointTranscriptionProvider(TRANSCRIPTION_URL)
+    : new WebSpeechTranscriptionProvider();
+
+export const getTranscriptionProvider = (): TranscriptionProvider => provider;
+
+export const setTranscriptionProvider = (next: TranscriptionProvider) => {
+  provider = next;
+};
@@ -3,32 +3,129 @@ export interface Message {
   content: string;
   type: 'user' | 'ai';
   timestamp: Date;
-  status?: 'streaming' | 'completed' | 'error';
+  status?: 'streaming' | 'completed' | 'stopped' | 'error';
+  // Structured pieces of an AI answer, populated while streaming
+  parts?: MessageParts;
+  // User-facing reason when status is 'error'
+  error?: string;
+  // Outbox state for user messages that have not reached the backend yet
+  delivery?: DeliveryState;
+  // Files uploaded with a user message
+  attachments?: Attachment[];
 }
 
+export type AttachmentFormat = 'csv' | 'xlsx' | 'parquet' | 'json';
+
+// An uploaded file, sent with the next message as a data source for the answer
+export interface Attachment {
+  id: string;
+  name: string;
+  size: number;
+  format: AttachmentFormat;
+}
+
+export type DeliveryState = 'queued' | 'sending' | 'failed';
+
+// A user message waiting in the offline outbox
+export interface OutboxItem {
+  id: string;
+  conversationId: string;
+  content: string;
+  createdAt: Date;
+  state: DeliveryState;
+  error?: string;
+  attachments?: Attachment[];
+}
+
+// Typed buckets that streamed events are routed into, keyed by their SSE status
+export interface MessageParts {
+  steps: string[];
+  analysis: string;
+  charts: string;
+  content: string;
+  followups: string;
+  // Answer sections in the order their first text arrived
+  sections: AnswerSection[];
+}
+
+export type AnswerSection = 'analysis' | 'charts' | 'content' | 'followups';
+
 export interface Conversation {
   id: string;
   title: string;
   lastMessage: string;
   timestamp: Date;
   messages: Message[];
+  // Asset and data source ids the backend answers this conversation from
+  selectedAssets?: string[];
+  selectedDataSources?: string[];
+  // Pinned conversations are listed first; archived ones are hidden from the main list
+  pinned?: boolean;
+  archived?: boolean;
+  // Set when the user named the conversation; automatic titling leaves it alone
+  titleLocked?: boolean;
+}
+
+// Conversation fields that can be changed after creation
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'titleLocked' | 'pinned' | 'archived'>>;
+
+// What a conversation answers from, chosen in the data source picker
+export interface DataSourceSelection {
+  selectedAssets: string[];
+  selectedDataSources: string[];
+}
+
+// A conversation search hit: the title or one message of a conversation
+export interface ConversationSearchResult {
+  conversationId: string;
+  title: string;
+  // Matching message; absent when only the title matched
+  messageId?: string;
+  // Matching excerpt of the message text
+  snippet: string;
+  timestamp: Date;
 }
 
+// A dataset or asset the backend can answer from
+export interface DataCatalogItem {
+  id: string;
+  name: string;
+  kind: 'dataSource' | 'asset';
+  description?: string;
+}
+
+export type StreamStatus =
+  | 'started'
+  | 'step_executing'
+  | 'streaming_analysis'
+  | 'streaming_charts'
+  | 'streaming_content'
+  | 'streaming_followup_questions'
+  | 'completed'
+  | 'error';
+
 export interface StreamData {
-  status: string;
+  status: StreamStatus;
   message: string;
   conversationId: string;
   messageId: string;
 }
 
-export interface ParsedContent {
-  type: 'text' | 'python_artifact' | 'chart_artifact' | 'followup_question';
+export interface TextContent {
+  type: 'text';
   content: string;
-  title?: string;
-  code?: string;
-  chartOptions?: any;
-  // New: support CDN-hosted chart HTML pages (e.g., Plotly render URLs)
-  htmlCdnUrl?: string;
-  // New: support direct Plotly (or other) JSON config via URL
-  jsonCdnUrl?: string;
 }
+
+// An artifact tag and its parsed payload; the payload's shape belongs to the registered artifact kind
+export interface ArtifactContent {
+  type: 'artifact';
+  tag: string;
+  // Parsed payload, or null for tags no artifact kind is registered for
+  payload: unknown;
+  // Raw text between the opening and closing tag
+  content: string;
+  // Artifact is still streaming and its closing tag has not arrived yet
+  pending?: boolean;
+}
+
+export type ParsedContent = TextContent | ArtifactContent;
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { applyStreamEvent, composeMessageContent, createMessageParts, parseAIContent, StreamingContentParser } from './utils';
+import type { ParsedContent, StreamData, StreamStatus } from './types';
+
+const FOLLOWUPS = '<followup_question><question>By region?</question><question>By month?</question></followup_question>';
+
+// Feed `chunks` to one parser as a growing message and return the result of the last update
+const stream = (chunks: string[], final = true) => {
+  const parser = new StreamingContentParser();
+  let content = '';
+  let parts: ParsedContent[] = [];
+  chunks.forEach((chunk, index) => {
+    content += chunk;
+    parts = parser.update(content, final && index === chunks.length - 1);
+  });
+  return parts;
+};
+
+const summarize = (parts: ParsedContent[]) =>
+  parts.map(part => (part.type === 'text' ? `text:${part.content}` : `${part.tag}${part.pending ? ' (pending)' : ''}`));
+
+describe('StreamingContentParser', () => {
+  it('splits text and registered artifacts in document order', () => {
+    expect(summarize(parseAIContent(`Weekly COGS fell.\n${FOLLOWUPS}\nDone.`))).toEqual([
+      'text:Weekly COGS fell.',
+      'followup_question',
+      'text:Done.',
+    ]);
+  });
+
+  it('finds tags split across chunks', () => {
+    const message = `Intro ${FOLLOWUPS} outro`;
+    const whole = summarize(parseAIContent(message));
+    for (const size of [1, 2, 3, 7]) {
+      const chunks = message.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) ?? [];
+      expect(summarize(stream(chunks))).toEqual(whole);
+    }
+  });
+
+  it('holds back a half-received opening tag while streaming', () => {
+    expect(summarize(stream(['Intro <follow'], false))).toEqual(['text:Intro']);
+  });
+
+  it('shows an unclosed registered artifact as pending while streaming', () => {
+    const parts = stream(['Intro\n<followup_question><question>By region?</question>'], false);
+    expect(summarize(parts)).toEqual(['text:Intro', 'followup_question (pending)']);
+  });
+
+  it('keeps text that mentions unknown snake_case tags', () => {
+    const message = 'Join on <user_id> and group by <column_name>. Then sort.';
+    expect(summarize(parseAIContent(message))).toEqual([`text:${message}`]);
+    expect(summarize(stream(message.split(/(?= )/)))).toEqual([`text:${message}`]);
+  });
+
+  it('opens an unknown tag once its closing tag arrives', () => {
+    const parts = stream(['Before <map_artifact>', '{"region": "EU"}', '</map_artifact> after']);
+    expect(summarize(parts)).toEqual(['text:Before', 'map_artifact', 'text:after']);
+    expect(parts[1]).toMatchObject({ payload: null, content: '{"region": "EU"}' });
+  });
+
+  it('shows an unknown tag as text until it is closed', () => {
+    expect(summarize(stream(['Before <map_artifact>', ' still text'], false))).toEqual([
+      'text:Before <map_artifact> still text',
+    ]);
+  });
+
+  it('ignores tags inside inline code', () => {
+    const message = 'Use `<followup_question>` to suggest questions, and `` `<user_id>` `` for ids.';
+    expect(summarize(parseAIContent(message))).toEqual([`text:${message}`]);
+    expect(summarize(stream(message.split('')))).toEqual([`text:${message}`]);
+  });
+
+  it('ignores tags inside code fences', () => {
+    const message = `Example:\n\`\`\`xml\n${FOLLOWUPS}\n<user_id>\n\`\`\`\nAfter ${FOLLOWUPS}`;
+    expect(summarize(parseAIContent(message))).toEqual([
+      `text:Example:\n\`\`\`xml\n${FOLLOWUPS}\n<user_id>\n\`\`\`\nAfter`,
+      'followup_question',
+    ]);
+    expect(summarize(stream(message.split('')))).toEqual(summarize(parseAIContent(message)));
+  });
+
+  it('treats an unmatched backtick as text', () => {
+    const message = `It's a \` stray.\n\n${FOLLOWUPS}`;
+    expect(summarize(parseAIContent(message))).toEqual(['text:It\'s a ` stray.', 'followup_question']);
+  });
+
+  it('starts over when the message is replaced rather than extended', () => {
+    const parser = new StreamingContentParser();
+    parser.update(`Old ${FOLLOWUPS}`, true);
+    expect(summarize(parser.update('New answer', true))).toEqual(['text:New answer']);
+  });
+});
+
+describe('composeMessageContent', () => {
+  const event = (status: StreamStatus, message: string): StreamData => ({ status, message, conversationId: 'c', messageId: 'm' });
+
+  it('keeps sections in arrival order so the body only grows at the end', () => {
+    const events = [
+      event('started', 'Planning'),
+      event('streaming_content', 'COGS fell '),
+      event('streaming_content', 'by 4%.'),
+      event('streaming_charts', '<chart_artifact>'),
+      event('streaming_charts', '</chart_artifact>'),
+      event('streaming_analysis', 'Based on 12 weeks.'),
+    ];
+    let parts = createMessageParts();
+    let previous = '';
+    for (const item of events) {
+      parts = applyStreamEvent(parts, item);
+      const content = composeMessageContent(parts);
+      expect(content.startsWith(previous)).toBe(true);
+      previous = content;
+    }
+    expect(previous).toBe('COGS fell by 4%.\n<chart_artifact></chart_artifact>\nBased on 12 weeks.');
+  });
+
+  it('leaves out progress steps and empty sections', () => {
+    const parts = [event('step_executing', 'Querying'), event('streaming_analysis', '  '), event('streaming_content', 'Done')]
+      .reduce(applyStreamEvent, createMessageParts());
+    expect(composeMessageContent(parts)).toBe('Done');
+  });
+});
@@ -1,158 +1,420 @@
-import type { ParsedContent } from './types';
-
-export const parseAIContent = (content: string): ParsedContent[] => {
-  const results: ParsedContent[] = [];
-  
-  // Primary parsing: direct artifacts in content
-  // Parse Python artifacts
-  const pythonRegex = /<python_artifact>([\s\S]*?)<\/python_artifact>/g;
-  let pythonMatch;
-  while ((pythonMatch = pythonRegex.exec(content)) !== null) {
-    const artifactContent = pythonMatch[1];
-    const titleMatch = artifactContent.match(/<title>([\s\S]*?)<\/title>/);
-    const codeMatch = artifactContent.match(/<code>([\s\S]*?)<\/code>/);
-    if (titleMatch && codeMatch) {
-      results.push({
-        type: 'python_artifact',
-        title: titleMatch[1],
-        code: codeMatch[1].trim(),
-        content: artifactContent
-      });
+import { getArtifactDefinition, isArtifactTag } from './artifacts';
+import type { AnswerSection, ArtifactContent, MessageParts, ParsedContent, StreamData } from './types';
+
+// Legacy wrapper around python artifacts; its tags are dropped and the inner artifacts parsed as usual
+const WRAPPER_TAGS = ['<data_analysis_artifacts>', '</data_analysis_artifacts>'];
+
+// Backend artifact tags are snake_case. An unregistered one only becomes an artifact once its closing
+// tag is in, so prose that mentions <user_id> or <column_name> stays text.
+const UNKNOWN_ARTIFACT_TAG = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/;
+
+// A piece of the message the parser has fully consumed
+type ParsedBlock =
+  | { kind: 'text'; content: string }
+  | { kind: 'artifact'; part: ArtifactContent | null };
+
+// An unregistered tag read as text, with the parser state to go back to if its closing tag turns up
+interface TagCandidate {
+  tag: string;
+  index: number;
+  start: number;
+  blockCount: number;
+  // Where the search for the closing tag resumes
+  searchFrom: number;
+}
+
+const parseArtifact = (tag: string, content: string): ArtifactContent | null => {
+  const definition = getArtifactDefinition(tag);
+  // Unknown tags keep their raw body for the unsupported-artifact viewer
+  if (!definition) return { type: 'artifact', tag, payload: null, content };
+  const payload = definition.parse(content);
+  return payload === null ? null : { type: 'artifact', tag, payload, content };
+};
+
+// Placeholder for an artifact whose closing tag has not arrived yet
+const parsePendingArtifact = (tag: string, content: string, final: boolean): ArtifactContent | null => {
+  const definition = getArtifactDefinition(tag);
+  // Unknown tags are only opened once their closing tag has arrived
+  if (!definition) return null;
+  // A finished message never completes its open artifact; only some kinds are worth keeping anyway
+  if (final && !definition.keepWhenUnclosed) return null;
+  if (!definition.parsePartial) {
+    return final ? null : { type: 'artifact', tag, payload: null, content, pending: true };
+  }
+  const payload = definition.parsePartial(content);
+  return payload === null ? null : { type: 'artifact', tag, payload, content, pending: !final };
+};
+
+// Incremental parser for a message that grows as it streams. Each update only
+// scans the text appended since the previous call; completed artifacts are
+// parsed once and cached, and unclosed ones come back as `pending` parts.
+// Tags inside inline code and code fences are text.
+export class StreamingContentParser {
+  private source = '';
+  private blocks: ParsedBlock[] = [];
+  // Start of the text or artifact currently being read
+  private start = 0;
+  // Where the next scan resumes, so tags split across updates are still found
+  private cursor = 0;
+  private openTag: string | null = null;
+  // Backtick run of the code fence being read
+  private fence: string | null = null;
+  private candidates: TagCandidate[] = [];
+
+  update(content: string, final = false): ParsedContent[] {
+    if (!content.startsWith(this.source)) {
+      this.reset();
     }
+    this.source = content;
+    this.reviveCandidates();
+    this.scan(final);
+    return this.collect(final);
   }
 
-  // Parse Chart artifacts (new schema)
-  const chartRegex = /<chart_artifact>([\s\S]*?)<\/chart_artifact>/g;
-  let chartMatch;
-  while ((chartMatch = chartRegex.exec(content)) !== null) {
-    const artifactContent = chartMatch[1];
-    const titleMatch = artifactContent.match(/<title>([\s\S]*?)<\/title>/);
+  reset() {
+    this.source = '';
+    this.blocks = [];
+    this.start = 0;
+    this.cursor = 0;
+    this.openTag = null;
+    this.fence = null;
+    this.candidates = [];
+  }
 
-    // New style: Plotly or any HTML via CDN url
-    const cdnUrlMatch = artifactContent.match(/<html_cdn_url>([\s\S]*?)<\/html_cdn_url>/);
-  // New style (backend updated): direct JSON config URL
-  const jsonCdnUrlMatch = artifactContent.match(/<json_cdn_url>([\s\S]*?)<\/json_cdn_url>/);
+  // Rewind to the first unregistered tag whose closing tag has arrived, so the next scan opens it
+  private reviveCandidates() {
+    for (const [position, candidate] of this.candidates.entries()) {
+      const closing = `</${candidate.tag}>`;
+      if (this.source.indexOf(closing, candidate.searchFrom) === -1) {
+        candidate.searchFrom = Math.max(candidate.searchFrom, this.source.length - closing.length + 1);
+        continue;
+      }
+      this.candidates = this.candidates.slice(0, position);
+      this.blocks.length = candidate.blockCount;
+      this.start = candidate.start;
+      this.cursor = candidate.index;
+      this.openTag = null;
+      this.fence = null;
+      return;
+    }
+  }
 
-    // Legacy nested echart_artifact with JSON options
-    const echartMatch = artifactContent.match(/<echart_artifact>([\s\S]*?)<\/echart_artifact>/);
+  private scan(final: boolean) {
+    const content = this.source;
+    while (this.cursor < content.length) {
+      if (this.openTag) {
+        const closing = `</${this.openTag}>`;
+        const end = content.indexOf(closing, this.cursor);
+        if (end === -1) {
+          // The closing tag may be split across updates, so rescan its possible prefix next time
+          this.cursor = Math.max(this.start, content.length - closing.length + 1);
+          return;
+        }
+        this.blocks.push({ kind: 'artifact', part: parseArtifact(this.openTag, content.slice(this.start, end)) });
+        this.openTag = null;
+        this.start = this.cursor = end + closing.length;
+        continue;
+      }
 
-    if (titleMatch) {
-      if (jsonCdnUrlMatch) {
-        results.push({
-          type: 'chart_artifact',
-            title: titleMatch[1],
-            jsonCdnUrl: jsonCdnUrlMatch[1].trim(),
-            content: artifactContent
-        });
+      if (this.fence) {
+        if (!this.skipFence(final)) return;
         continue;
       }
-      if (cdnUrlMatch) {
-        results.push({
-          type: 'chart_artifact',
-          title: titleMatch[1],
-          htmlCdnUrl: cdnUrlMatch[1].trim(),
-          content: artifactContent
-        });
+
+      const markup = /[<`]/g;
+      markup.lastIndex = this.cursor;
+      const lt = markup.exec(content)?.index;
+      if (lt === undefined) {
+        this.cursor = content.length;
+        return;
+      }
+      if (content[lt] === '`') {
+        if (!this.skipCode(lt, final)) return;
         continue;
       }
-      if (echartMatch) {
-        const echartContent = echartMatch[1];
-        const optionsMatch = echartContent.match(/<chart_options>([\s\S]*?)<\/chart_options>/);
-        if (optionsMatch) {
-          try {
-            const chartOptions = JSON.parse(optionsMatch[1].trim());
-            results.push({
-              type: 'chart_artifact',
-              title: titleMatch[1],
-              chartOptions,
-              content: echartContent
-            });
-          } catch (e) {
-            console.error('Failed to parse chart options:', e);
-          }
-        }
+      const rest = content.slice(lt);
+      const wrapper = WRAPPER_TAGS.find(tag => rest.startsWith(tag));
+      const tag = rest.match(/^<([a-z][a-z0-9_]*)>/)?.[1];
+      const isUnknown = !!tag && !isArtifactTag(tag) && UNKNOWN_ARTIFACT_TAG.test(tag);
+      if (wrapper || (tag && isArtifactTag(tag)) || (isUnknown && content.includes(`</${tag}>`, lt))) {
+        this.pushText(lt);
+        this.start = this.cursor = lt + (wrapper ?? `<${tag}>`).length;
+        this.openTag = wrapper ? null : tag ?? null;
+        continue;
       }
+      if (tag && isUnknown) {
+        this.candidates.push({
+          tag,
+          index: lt,
+          start: this.start,
+          blockCount: this.blocks.length,
+          searchFrom: lt + tag.length + 2,
+        });
+      }
+      // A tag cut off at the end of the chunk: wait for more before deciding it is text
+      if (/^<\/?[a-z0-9_]*$/.test(rest)) {
+        this.cursor = lt;
+        return;
+      }
+      this.cursor = lt + 1;
     }
   }
 
-  // Backward compatibility: parse data_analysis_artifacts wrapper for python blocks
-  const dataAnalysisRegex = /<data_analysis_artifacts>([\s\S]*?)<\/data_analysis_artifacts>/g;
-  let dataAnalysisMatch;
-  while ((dataAnalysisMatch = dataAnalysisRegex.exec(content)) !== null) {
-    const artifactsContent = dataAnalysisMatch[1];
-    let innerMatch;
-    const innerPythonRegex = /<python_artifact>([\s\S]*?)<\/python_artifact>/g;
-    while ((innerMatch = innerPythonRegex.exec(artifactsContent)) !== null) {
-      const artifactContent = innerMatch[1];
-      const titleMatch = artifactContent.match(/<title>([\s\S]*?)<\/title>/);
-      const codeMatch = artifactContent.match(/<code>([\s\S]*?)<\/code>/);
-      if (titleMatch && codeMatch) {
-        results.push({
-          type: 'python_artifact',
-          title: titleMatch[1],
-          code: codeMatch[1].trim(),
-          content: artifactContent
-        });
+  // Step over a backtick run at `index` and the inline code it opens. Returns false when more text
+  // is needed to tell where the code ends.
+  private skipCode(index: number, final: boolean): boolean {
+    const content = this.source;
+    let end = index;
+    while (content[end] === '`') end++;
+    // The run itself may still be growing
+    if (end === content.length && !final) {
+      this.cursor = index;
+      return false;
+    }
+    const run = content.slice(index, end);
+    const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+    if (run.length >= 3 && /^ {0,3}$/.test(content.slice(lineStart, index))) {
+      this.fence = run;
+      this.cursor = end;
+      return true;
+    }
+
+    // Inline code ends at the next run of the same length in the same paragraph
+    const paragraphEnd = content.indexOf('\n\n', end);
+    const runs = /`+/g;
+    runs.lastIndex = end;
+    let match: RegExpExecArray | null;
+    while ((match = runs.exec(content)) && (paragraphEnd === -1 || match.index < paragraphEnd)) {
+      if (match.index + match[0].length === content.length && !final) break;
+      if (match[0].length === run.length) {
+        this.cursor = match.index + run.length;
+        return true;
       }
     }
+    if (paragraphEnd === -1 && !final) {
+      this.cursor = index;
+      return false;
+    }
+    // A run nothing closes is literal text
+    this.cursor = end;
+    return true;
   }
 
-  // Parse follow-up questions
-  const followupRegex = /<followup_question>([\s\S]*?)<\/followup_question>/g;
-  let followupMatch;
-  while ((followupMatch = followupRegex.exec(content)) !== null) {
-    const questionsContent = followupMatch[1];
-    const questionMatches = questionsContent.match(/<question>([\s\S]*?)<\/question>/g);
-    if (questionMatches) {
-      const questions = questionMatches.map((q: string) => q.replace(/<\/?question>/g, '')).join('\n');
-      results.push({
-        type: 'followup_question',
-        content: questions
-      });
+  // Read up to the line that closes the current code fence. Returns false when it has not arrived yet.
+  private skipFence(final: boolean): boolean {
+    const content = this.source;
+    const closing = new RegExp(`\\n {0,3}${this.fence}\`*[ \\t]*(?=\\n|$)`, 'g');
+    closing.lastIndex = this.cursor;
+    const match = closing.exec(content);
+    if (match && (final || match.index + match[0].length < content.length)) {
+      this.fence = null;
+      this.cursor = match.index + match[0].length;
+      return true;
     }
+    // The closing line may still be arriving, so rescan it from its start next time
+    this.cursor = match ? match.index : Math.max(this.cursor, content.lastIndexOf('\n'));
+    return false;
   }
 
-  // Extract regular text content (remove all artifacts we know about)
-  let textContent = content
-    .replace(/<data_analysis_artifacts>[\s\S]*?<\/data_analysis_artifacts>/g, '')
-    .replace(/<chart_artifact>[\s\S]*?<\/chart_artifact>/g, '')
-    .replace(/<python_artifact>[\s\S]*?<\/python_artifact>/g, '')
-    .replace(/<followup_question>[\s\S]*?<\/followup_question>/g, '')
-    .trim();
-
-  if (textContent) {
-    results.push({
-      type: 'text',
-      content: textContent
-    });
+  private pushText(end: number) {
+    if (end > this.start) {
+      this.blocks.push({ kind: 'text', content: this.source.slice(this.start, end) });
+    }
   }
 
-  return results;
-};
+  // Parts in document order; text between two artifacts becomes its own entry
+  private collect(final: boolean): ParsedContent[] {
+    const results: ParsedContent[] = [];
+    let text = '';
+    const flushText = () => {
+      const textContent = text.trim();
+      if (textContent) {
+        results.push({
+          type: 'text',
+          content: textContent
+        });
+      }
+      text = '';
+    };
 
-export const parseStreamData = (data: string): any => {
-  try {
-    if (data.startsWith('data: ')) {
-      return JSON.parse(data.substring(6));
+    for (const block of this.blocks) {
+      if (block.kind === 'text') {
+        // Neighbouring text (e.g. either side of a dropped wrapper tag) stays one segment
+        text += block.content;
+      } else if (block.part) {
+        flushText();
+        results.push(block.part);
+      }
     }
-    return null;
+
+    const tail = this.source.slice(this.start);
+    if (this.openTag) {
+      flushText();
+      const pending = parsePendingArtifact(this.openTag, tail, final);
+      if (pending) {
+        results.push(pending);
+      }
+    } else {
+      // Hold back a half-received opening tag until we know what it is
+      text += final ? tail : this.source.slice(this.start, this.cursor);
+      flushText();
+    }
+    return results;
+  }
+}
+
+// One-shot parse of a complete message
+export const parseAIContent = (content: string): ParsedContent[] =>
+  new StreamingContentParser().update(content, true);
+
+// Parse the JSON payload carried in an SSE event's data field
+export const parseStreamData = (data: string): StreamData | null => {
+  try {
+    return JSON.parse(data);
   } catch (e) {
     console.error('Failed to parse stream data:', e);
     return null;
   }
 };
 
+export const createMessageParts = (): MessageParts => ({
+  steps: [],
+  analysis: '',
+  charts: '',
+  content: '',
+  followups: '',
+  sections: [],
+});
+
+const appendToSection = (parts: MessageParts, section: AnswerSection, message: string): MessageParts => ({
+  ...parts,
+  [section]: parts[section] + message,
+  sections: parts.sections.includes(section) || !message ? parts.sections : [...parts.sections, section],
+});
+
+// Route a single stream event into the matching message part based on its status
+export const applyStreamEvent = (parts: MessageParts, event: StreamData): MessageParts => {
+  const message = event.message ?? '';
+  switch (event.status) {
+    case 'started':
+    case 'step_executing':
+      return message ? { ...parts, steps: [...parts.steps, message] } : parts;
+    case 'streaming_analysis':
+      return appendToSection(parts, 'analysis', message);
+    case 'streaming_charts':
+      return appendToSection(parts, 'charts', message);
+    case 'streaming_content':
+      return appendToSection(parts, 'content', message);
+    case 'streaming_followup_questions':
+      return appendToSection(parts, 'followups', message);
+    default:
+      // 'completed', 'error' and unknown statuses carry no answer content
+      return parts;
+  }
+};
+
+// Build the persisted message body from its parts; progress steps are never included. Sections
+// keep their arrival order, so while the newest one streams the body only ever grows at the end
+// and the message parser can keep its progress.
+export const composeMessageContent = (parts: MessageParts): string =>
+  parts.sections
+    .map(section => parts[section])
+    .filter(section => section.trim() !== '')
+    .join('\n');
+
+// Resolve after `ms`, or reject with the abort reason if the signal fires first
+export const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Minimal view of the hast nodes react-markdown hands to component overrides
+export interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+export const hastText = (node: HastNode): string =>
+  node.type === 'text' ? node.value ?? '' : (node.children ?? []).map(hastText).join('');
+
+// Single `$` is left alone because answers are full of currency amounts, so LaTeX
+// \( \) and \[ \] delimiters are rewritten to the `$$` form remark-math understands.
+// Fenced and inline code is skipped.
+export const normalizeMathDelimiters = (markdown: string): string =>
+  markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part
+            .replace(/\\\[([\s\S]+?)\\\]/g, (_match, math: string) => `\n$$\n${math.trim()}\n$$\n`)
+            .replace(/\\\(([\s\S]+?)\\\)/g, (_match, math: string) => `$$${math.trim()}$$`)
+    )
+    .join('');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole calendar days from `date` to `now`; rounding absorbs daylight saving shifts
+const calendarDaysBetween = (date: Date, now: Date) => {
+  const startOfDay = (day: Date) => new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  return Math.round((startOfDay(now) - startOfDay(date)) / DAY_MS);
+};
+
+// Sidebar section for a conversation last active at `date`
+export const conversationGroupLabel = (date: Date, now: Date = new Date()): string => {
+  const days = calendarDaysBetween(date, now);
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (days <= 7) return 'Previous 7 days';
+  if (date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth()) return 'This month';
+  return date.toLocaleDateString(undefined, {
+    month: 'long',
+    year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+// Relative within the day, then weekday and time for the past week, then the date
 export const formatTimestamp = (date: Date): string => {
   const now = new Date();
-  const diff = now.getTime() - date.getTime();
-  const hours = Math.floor(diff / (1000 * 60 * 60));
-  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-  
-  if (days > 0) {
-    return `${days}d ago`;
-  } else if (hours > 0) {
-    return `${hours}h ago`;
-  } else {
-    return 'Just now';
+  const minutes = Math.floor((now.getTime() - date.getTime()) / (60 * 1000));
+  const days = calendarDaysBetween(date, now);
+  const time = date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (days <= 0) return `${Math.floor(minutes / 60)}h ago`;
+  if (days === 1) return `Yesterday, ${time}`;
+  if (days <= 7) return `${date.toLocaleDateString(undefined, { weekday: 'long' })}, ${time}`;
+  return date.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === now.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+// "1.4 MB"-style file sizes
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
   }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
 };
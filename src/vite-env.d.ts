@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_AUTH_TOKEN?: string;
+  readonly VITE_USE_MOCK_BACKEND?: string;
+  readonly VITE_TRUSTED_CONTENT_HOSTS?: string;
+  readonly VITE_TRANSCRIPTION_PROVIDER?: string;
+  readonly VITE_TRANSCRIPTION_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}